@@ -1,79 +1,517 @@
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import BaziForm from './components/BaziForm';
 import LifeKLineChart from './components/LifeKLineChart';
 import AnalysisResult from './components/AnalysisResult';
-import { UserInput, LifeDestinyResult } from './types';
+import HistoryPanel from './components/HistoryPanel';
+import PrintableReport from './components/PrintableReport';
+import ComparisonPanel from './components/ComparisonPanel';
+import OutlookStrip from './components/OutlookStrip';
+import MonthlyPanel from './components/MonthlyPanel';
+import ChatPanel from './components/ChatPanel';
+import { UserInput, GenerationProgress, RequestStatus, SavedReading, KLinePoint, ChatMessage, RuntimeConfig } from './types';
 import { generateLifeAnalysis } from './services/geminiService';
-import { API_STATUS } from './constants';
-import { Sparkles, AlertCircle, BookOpen, Key } from 'lucide-react';
+import { RequestCancelledError } from './services/chatClient';
+import { createReading, restoreReading, saveReading, listReadings, getReading, renameReading, deleteReading } from './services/historyService';
+import { downloadReading, parseExportFile } from './services/exportService';
+import { buildShareUrl, decodeSharePayload, getSharePayload } from './services/shareService';
+import { exportChartPng, printReport } from './services/reportExportService';
+import { compareReadings, getPersonName } from './services/comparisonService';
+import { buildOutlook } from './services/outlookService';
+import { analyzeTurningPoints } from './services/turningPointService';
+import { generateMonthlyReading, getCachedMonthly, withMonthlyReading } from './services/monthlyService';
+import { askFollowUp, withChatMessages } from './services/followUpService';
+import { getProvider } from './services/providers';
+import { resolveReadingTemplate } from './services/promptTemplateService';
+import { DEFAULT_RUNTIME_CONFIG, checkRuntimeAccess, getBannerMessage, isServiceBusy, watchRuntimeConfig } from './services/runtimeConfigService';
+import { LANGUAGES, Translations, format, formatParts, getTranslations, isLanguage, useI18n } from './i18n';
+import { Sparkles, AlertCircle, BookOpen, Key, Wrench, ShieldAlert, RefreshCw, Download, Upload, Share2, Eye, FileText, ImageDown, Languages, Megaphone } from 'lucide-react';
+
+const formatRequestStatus = (status: RequestStatus, t: Translations): string => {
+  const attempt = format(t.app.attempt, { attempt: status.attempt, max: status.maxAttempts });
+  if (status.state === 'retrying') {
+    const seconds = Math.ceil((status.retryDelayMs ?? 0) / 1000);
+    return format(t.app.retrying, { task: status.task, error: status.lastError ?? '', seconds, attempt });
+  }
+  return format(t.app.requesting, { task: status.task, attempt });
+};
 
 const App: React.FC = () => {
+  const { language, setLanguage, t } = useI18n();
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState<LifeDestinyResult | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [userName, setUserName] = useState<string>('');
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [requestStatus, setRequestStatus] = useState<RequestStatus | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [readings, setReadings] = useState<SavedReading[]>([]);
+  // 当前展示的报告；保存失败时也保留在这里，仍可导出
+  const [currentReading, setCurrentReading] = useState<SavedReading | null>(null);
+  // 最新的报告：异步请求完成时在它上面合并结果，不用请求开始时的旧副本
+  const currentReadingRef = useRef<SavedReading | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+  // 通过分享链接打开的报告只读，不写入历史记录
+  const [readOnly, setReadOnly] = useState(false);
+  const [actionNotice, setActionNotice] = useState<string | null>(null);
+  // 双人对比的另一份报告
+  const [partner, setPartner] = useState<SavedReading | null>(null);
+  // API Key 不随报告保存，只在本次会话中记住，供流月等后续请求使用
+  const sessionApiKeyRef = useRef('');
+  // 流月：当前查看的流年与请求状态
+  const [monthlyPoint, setMonthlyPoint] = useState<KLinePoint | null>(null);
+  const [monthlyLoading, setMonthlyLoading] = useState(false);
+  const [monthlyStatus, setMonthlyStatus] = useState<string | null>(null);
+  const [monthlyError, setMonthlyError] = useState<string | null>(null);
+  const monthlyAbortRef = useRef<AbortController | null>(null);
+  // 追问对话的请求状态与图上高亮的年份
+  const [chatLoading, setChatLoading] = useState(false);
+  const [chatStatus, setChatStatus] = useState<string | null>(null);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const [highlightYears, setHighlightYears] = useState<number[]>([]);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  // 运行时配置：服务状态、公告、默认接口与允许的模型，定时重新读取
+  const [runtimeConfig, setRuntimeConfig] = useState<RuntimeConfig>(DEFAULT_RUNTIME_CONFIG);
+  const result = currentReading?.result ?? null;
+  const userName = currentReading?.input.name || '';
+
+  const outlook = useMemo(() => (result ? buildOutlook(result.chartData) : null), [result]);
+  const turningPoints = useMemo(() => (result ? analyzeTurningPoints(result.chartData) : undefined), [result]);
+
+  const chatSuggestions = useMemo(() => {
+    const suggestions: string[] = [];
+    const biggestDrop = [...(turningPoints?.drops ?? [])].sort((a, b) => b.value - a.value)[0];
+    if (biggestDrop) suggestions.push(format(t.app.suggestionDrop, { age: biggestDrop.point.age }));
+    suggestions.push(t.app.suggestionStartup);
+    if (outlook) suggestions.push(t.app.suggestionDecade);
+    return suggestions;
+  }, [turningPoints, outlook, t]);
+
+  const comparison = useMemo(
+    () => (currentReading && partner ? compareReadings(currentReading, partner) : null),
+    [currentReading, partner],
+  );
+
+  const refreshReadings = useCallback(async () => {
+    try {
+      setReadings(await listReadings());
+    } catch (err) {
+      console.error("History load error:", err);
+    }
+  }, []);
+
+  // 打开页面时读取历史记录
+  useEffect(() => {
+    let cancelled = false;
+    listReadings()
+      .then(list => {
+        if (!cancelled) setReadings(list);
+      })
+      .catch(err => console.error("History load error:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => watchRuntimeConfig(setRuntimeConfig), []);
+
+  useEffect(() => {
+    currentReadingRef.current = currentReading;
+  }, [currentReading]);
+
+  const banner = getBannerMessage(runtimeConfig, language) || (isServiceBusy(runtimeConfig) ? t.app.busy : '');
+
+  // 打开页面 (或地址栏换成另一个分享链接) 时解析 #share= 片段
+  useEffect(() => {
+    const openSharedReading = async () => {
+      const payload = getSharePayload(window.location.hash);
+      if (!payload) return;
+      try {
+        const reading = restoreReading(await decodeSharePayload(payload));
+        setError(null);
+        setReadOnly(true);
+        setCurrentReading(reading);
+      } catch (err: any) {
+        setError(err.message || getTranslations().app.shareOpenFailed);
+      }
+    };
+
+    openSharedReading();
+    window.addEventListener('hashchange', openSharedReading);
+    return () => window.removeEventListener('hashchange', openSharedReading);
+  }, []);
+
+  const closeMonthly = () => {
+    monthlyAbortRef.current?.abort();
+    setMonthlyPoint(null);
+    setMonthlyError(null);
+  };
+
+  const closeReading = () => {
+    setCurrentReading(null);
+    setActionNotice(null);
+    setPartner(null);
+    closeMonthly();
+    chatAbortRef.current?.abort();
+    setChatError(null);
+    setHighlightYears([]);
+    if (readOnly) {
+      setReadOnly(false);
+      // 去掉分享片段，刷新后不再自动打开
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    }
+  };
+
+  const handleExportPng = async () => {
+    const svg = chartContainerRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (!currentReading || !svg) return;
+    try {
+      await exportChartPng(svg, currentReading);
+    } catch (err: any) {
+      setActionNotice(err.message || t.app.imageFailed);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!currentReading) return;
+    try {
+      const url = await buildShareUrl(currentReading);
+      try {
+        await navigator.clipboard.writeText(url);
+        setActionNotice(t.app.shareCopied);
+      } catch {
+        window.prompt(t.app.sharePrompt, url);
+      }
+    } catch (err: any) {
+      setActionNotice(err.message || t.app.shareFailed);
+    }
+  };
+
+  // 报告有改动时写回历史记录 (只读报告不写入)
+  const persistReading = async (reading: SavedReading) => {
+    if (readOnly) return;
+    try {
+      await saveReading(reading);
+      await refreshReadings();
+    } catch (saveErr) {
+      console.error("History save error:", saveErr);
+    }
+  };
+
+  const replaceCurrentReading = (reading: SavedReading) => {
+    currentReadingRef.current = reading;
+    setCurrentReading(reading);
+  };
+
+  // 在最新数据上修改报告并保存，并行的流月、追问、清空对话与重命名互不覆盖。
+  // 报告已不在界面上时，改历史记录里的那一份
+  const updateReading = async (id: string, update: (reading: SavedReading) => SavedReading) => {
+    const current = currentReadingRef.current;
+    if (current?.id === id) {
+      const updated = update(current);
+      replaceCurrentReading(updated);
+      await persistReading(updated);
+      return;
+    }
+    try {
+      const stored = await getReading(id);
+      if (!stored) return;
+      await saveReading(update(stored));
+      await refreshReadings();
+    } catch (saveErr) {
+      console.error("History save error:", saveErr);
+    }
+  };
+
+  // 报告中保存的输入补上本次会话的 API Key；没有时向用户询问，取消则返回 null
+  const resolveRequestInput = (reading: SavedReading): UserInput | null => {
+    if (getProvider(reading.input.provider).requiresApiKey && !sessionApiKeyRef.current) {
+      const apiKey = window.prompt(format(t.app.apiKeyPrompt, { provider: t.providers[reading.input.provider] }));
+      if (!apiKey?.trim()) return null;
+      sessionApiKeyRef.current = apiKey.trim();
+    }
+    return { ...reading.input, apiKey: sessionApiKeyRef.current };
+  };
+
+  const handleViewMonthly = async (point: KLinePoint) => {
+    if (!currentReading) return;
+    monthlyAbortRef.current?.abort();
+    setMonthlyPoint(point);
+    setMonthlyError(null);
+    if (getCachedMonthly(currentReading, point.year)) return;
+
+    const offline = getProvider(currentReading.input.provider).offline;
+    if (readOnly && !offline) {
+      setMonthlyError(t.app.monthlyReadOnly);
+      return;
+    }
+    const blocked = checkRuntimeAccess(runtimeConfig, currentReading.input.provider, currentReading.input.modelName);
+    if (blocked) {
+      setMonthlyError(blocked);
+      return;
+    }
+    const input = resolveRequestInput(currentReading);
+    if (!input) {
+      setMonthlyError(t.app.monthlyNeedsKey);
+      return;
+    }
+
+    const controller = new AbortController();
+    monthlyAbortRef.current = controller;
+    setMonthlyLoading(true);
+    setMonthlyStatus(null);
+    try {
+      const monthly = await generateMonthlyReading(input, point, resolveReadingTemplate(currentReading), {
+        signal: controller.signal,
+        onStatus: status => setMonthlyStatus(formatRequestStatus(status, t)),
+      });
+      await updateReading(currentReading.id, reading => withMonthlyReading(reading, monthly));
+    } catch (err: any) {
+      if (!(err instanceof RequestCancelledError)) {
+        setMonthlyError(err.message || t.app.monthlyFailed);
+      }
+    } finally {
+      if (monthlyAbortRef.current === controller) {
+        monthlyAbortRef.current = null;
+        setMonthlyLoading(false);
+        setMonthlyStatus(null);
+      }
+    }
+  };
+
+  const handleAsk = async (question: string): Promise<boolean> => {
+    if (!currentReading) return false;
+    setChatError(null);
+    const blocked = checkRuntimeAccess(runtimeConfig, currentReading.input.provider, currentReading.input.modelName);
+    if (blocked) {
+      setChatError(blocked);
+      return false;
+    }
+    const input = resolveRequestInput(currentReading);
+    if (!input) {
+      setChatError(t.app.chatNeedsKey);
+      return false;
+    }
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    setChatLoading(true);
+    setChatStatus(null);
+    try {
+      const userMessage: ChatMessage = { role: 'user', content: question, createdAt: Date.now() };
+      const answer = await askFollowUp(input, currentReading, question, {
+        signal: controller.signal,
+        onStatus: status => setChatStatus(formatRequestStatus(status, t)),
+      });
+      setHighlightYears(answer.years ?? []);
+      await updateReading(currentReading.id, reading => withChatMessages(reading, [userMessage, answer]));
+      return true;
+    } catch (err: any) {
+      if (!(err instanceof RequestCancelledError)) {
+        setChatError(err.message || t.app.chatFailed);
+      }
+      return false;
+    } finally {
+      chatAbortRef.current = null;
+      setChatLoading(false);
+      setChatStatus(null);
+    }
+  };
+
+  const handleClearChat = async () => {
+    if (!currentReading) return;
+    setHighlightYears([]);
+    await updateReading(currentReading.id, reading => ({ ...reading, chat: [] }));
+  };
+
+  // 在图上标出年份时把K线图滚动到可见处
+  const handleHighlight = (years: number[]) => {
+    setHighlightYears(years);
+    if (years.length > 0) chartContainerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleOpenReading = (reading: SavedReading) => {
+    closeReading();
+    setError(null);
+    setCurrentReading(reading);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 允许再次选择同一个文件
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const reading = restoreReading(parseExportFile(await file.text()));
+      closeReading();
+      setError(null);
+      setCurrentReading(reading);
+      try {
+        await saveReading(reading);
+        await refreshReadings();
+      } catch (saveErr) {
+        console.error("History save error:", saveErr);
+      }
+    } catch (err: any) {
+      setError(err.message || t.app.importFailed);
+    }
+  };
+
+  const handleRenameReading = async (id: string, title: string) => {
+    try {
+      await renameReading(id, title);
+      await refreshReadings();
+    } catch (err: any) {
+      setError(err.message || t.app.renameFailed);
+      return;
+    }
+    const current = currentReadingRef.current;
+    if (current?.id === id && title.trim()) {
+      replaceCurrentReading({ ...current, title: title.trim() });
+    }
+  };
+
+  const handleDeleteReading = async (id: string) => {
+    try {
+      await deleteReading(id);
+    } catch (err: any) {
+      setError(err.message || t.app.deleteFailed);
+      return;
+    }
+    if (partner?.id === id) setPartner(null);
+    await refreshReadings();
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
 
   const handleFormSubmit = async (data: UserInput) => {
-    // 检查系统状态
-    if (API_STATUS === 0) {
-      setError("当前服务器繁忙，使用的用户过多导致API堵塞，请择时再来");
+    // 检查服务状态与允许的模型 (演示模式不依赖接口)
+    const blocked = checkRuntimeAccess(runtimeConfig, data.provider, data.modelName);
+    if (blocked) {
+      setError(blocked);
       // Removed scrollTo to keep user context
       return;
     }
 
+    sessionApiKeyRef.current = data.apiKey;
     setLoading(true);
     setError(null);
-    setResult(null);
-    setUserName(data.name || '');
+    setCurrentReading(null);
+    setProgress(null);
+    setRequestStatus(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const analysis = await generateLifeAnalysis(data);
-      setResult(analysis);
+      const analysis = await generateLifeAnalysis(data, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        onStatus: setRequestStatus,
+      });
+      const reading = createReading(data, analysis);
+      setCurrentReading(reading);
+
+      // 保存失败不影响展示
+      try {
+        await saveReading(reading);
+        await refreshReadings();
+      } catch (saveErr) {
+        console.error("History save error:", saveErr);
+      }
     } catch (err: any) {
-      setError(err.message || "命理测算过程中发生了意外错误，请重试。");
+      // 用户主动取消不算错误
+      if (!(err instanceof RequestCancelledError)) {
+        setError(err.message || t.app.generateFailed);
+      }
     } finally {
+      abortRef.current = null;
       setLoading(false);
+      setProgress(null);
+      setRequestStatus(null);
     }
   };
 
   return (
-    <div className="min-h-screen bg-gray-50 flex flex-col items-center">
+    <div className="min-h-screen bg-gray-50 flex flex-col items-center print:bg-white print:block">
       {/* Header */}
-      <header className="w-full bg-white border-b border-gray-200 py-6 sticky top-0 z-50">
+      <header className="w-full bg-white border-b border-gray-200 py-6 sticky top-0 z-50 print:hidden">
         <div className="max-w-7xl mx-auto px-4 flex items-center justify-between">
           <div className="flex items-center gap-3">
             <div className="bg-black text-white p-2 rounded-lg">
               <Sparkles className="w-6 h-6" />
             </div>
             <div>
-              <h1 className="text-2xl font-serif-sc font-bold text-gray-900 tracking-wide">人生K线</h1>
+              <h1 className="text-2xl font-serif-sc font-bold text-gray-900 tracking-wide">{t.app.title}</h1>
               <p className="text-xs text-gray-500 uppercase tracking-widest">Life Destiny K-Line</p>
             </div>
           </div>
           <div className="flex items-center gap-6">
+            <label className="flex items-center gap-1 text-sm text-gray-600" title={t.app.language}>
+              <Languages className="w-4 h-4" />
+              <select
+                value={language}
+                onChange={e => isLanguage(e.target.value) && setLanguage(e.target.value)}
+                className="bg-transparent font-medium outline-none cursor-pointer"
+                aria-label={t.app.language}
+              >
+                {LANGUAGES.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={() => importInputRef.current?.click()}
+              disabled={loading}
+              className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 font-medium disabled:opacity-50"
+              title={t.app.importTitle}
+            >
+              <Upload className="w-4 h-4" />
+              {t.app.import}
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImportFile}
+              className="hidden"
+            />
             <div className="hidden md:block text-sm text-gray-400 font-medium bg-gray-100 px-3 py-1 rounded-full">
-               潜学天下
+               {t.app.brand}
             </div>
           </div>
         </div>
       </header>
 
+      {/* Announcement from runtime config */}
+      {banner && (
+        <div className={`w-full border-b print:hidden ${isServiceBusy(runtimeConfig) ? 'bg-red-50 border-red-100 text-red-700' : 'bg-amber-50 border-amber-100 text-amber-800'}`}>
+          <div className="max-w-7xl mx-auto px-4 py-2 flex items-center gap-2 text-sm">
+            <Megaphone className="w-4 h-4 shrink-0" />
+            <span className="whitespace-pre-line">{banner}</span>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
-      <main className="w-full max-w-7xl mx-auto px-4 py-8 md:py-12 flex flex-col gap-12">
+      <main className="w-full max-w-7xl mx-auto px-4 py-8 md:py-12 flex flex-col gap-12 print:hidden">
         
         {/* If no result, show intro and form */}
         {!result && (
           <div className="flex flex-col items-center justify-center min-h-[60vh] gap-8 animate-fade-in">
             <div className="text-center max-w-2xl flex flex-col items-center">
               <h2 className="text-4xl md:text-5xl font-serif-sc font-bold text-gray-900 mb-6">
-                洞悉命运起伏 <br/>
-                <span className="text-indigo-600">预见人生轨迹</span>
+                {t.app.heroTitle} <br/>
+                <span className="text-indigo-600">{t.app.heroHighlight}</span>
               </h2>
               <p className="text-gray-600 text-lg leading-relaxed mb-8">
-                结合<strong>传统八字命理</strong>与<strong>金融可视化技术</strong>
-                将您的一生运势绘制成类似股票行情的K线图。
-                助您发现人生牛市，规避风险熊市，把握关键转折点。
+                {formatParts(t.app.heroIntro, {
+                  traditional: <strong>{t.app.heroTraditional}</strong>,
+                  finance: <strong>{t.app.heroFinance}</strong>,
+                })}
               </p>
 
               {/* Tutorial Buttons Group */}
@@ -88,7 +526,7 @@ const App: React.FC = () => {
                   <div className="bg-indigo-50 p-1.5 rounded-full text-indigo-600 group-hover:bg-indigo-600 group-hover:text-white transition-colors">
                     <BookOpen className="w-4 h-4" />
                   </div>
-                  <span className="text-base font-bold text-gray-800 group-hover:text-indigo-700 transition-colors">使用教程</span>
+                  <span className="text-base font-bold text-gray-800 group-hover:text-indigo-700 transition-colors">{t.app.tutorial}</span>
                 </a>
 
                 {/* API Tutorial */}
@@ -101,12 +539,42 @@ const App: React.FC = () => {
                   <div className="bg-emerald-50 p-1.5 rounded-full text-emerald-600 group-hover:bg-emerald-600 group-hover:text-white transition-colors">
                     <Key className="w-4 h-4" />
                   </div>
-                  <span className="text-base font-bold text-gray-800 group-hover:text-emerald-700 transition-colors">API教程</span>
+                  <span className="text-base font-bold text-gray-800 group-hover:text-emerald-700 transition-colors">{t.app.apiTutorial}</span>
                 </a>
               </div>
             </div>
             
-            <BaziForm onSubmit={handleFormSubmit} isLoading={loading} />
+            <BaziForm onSubmit={handleFormSubmit} onCancel={handleCancel} isLoading={loading} runtimeConfig={runtimeConfig} />
+
+            {loading && requestStatus && (
+              <div className={`flex items-center gap-2 text-xs px-4 py-2 rounded-lg border max-w-md w-full ${
+                requestStatus.state === 'retrying'
+                  ? 'text-amber-800 bg-amber-50 border-amber-100'
+                  : 'text-gray-600 bg-white border-gray-200'
+              }`}>
+                <RefreshCw className={`w-3.5 h-3.5 flex-shrink-0 ${requestStatus.state === 'requesting' ? 'animate-spin' : ''}`} />
+                <p className="break-all">{formatRequestStatus(requestStatus, t)}</p>
+              </div>
+            )}
+
+            {/* Live preview while streaming */}
+            {loading && progress && (
+              <section className="w-full space-y-3 animate-fade-in">
+                <div className="flex items-center justify-between text-sm font-bold text-gray-700">
+                  <span>{t.app.generating}</span>
+                  <span className="font-mono text-indigo-600">
+                    {format(t.app.generatedYears, { received: progress.receivedYears, total: progress.totalYears })}
+                  </span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-500 transition-all duration-500"
+                    style={{ width: `${(progress.receivedYears / progress.totalYears) * 100}%` }}
+                  />
+                </div>
+                <LifeKLineChart data={progress.chartData} animate={false} />
+              </section>
+            )}
 
             {error && (
               <div className="flex items-center gap-2 text-red-600 bg-red-50 px-4 py-3 rounded-lg border border-red-100 max-w-md w-full animate-bounce-short">
@@ -114,6 +582,13 @@ const App: React.FC = () => {
                 <p className="text-sm font-bold">{error}</p>
               </div>
             )}
+
+            <HistoryPanel
+              readings={readings}
+              onOpen={handleOpenReading}
+              onRename={handleRenameReading}
+              onDelete={handleDeleteReading}
+            />
           </div>
         )}
 
@@ -123,44 +598,180 @@ const App: React.FC = () => {
             
             <div className="flex justify-between items-center border-b pb-4">
                <h2 className="text-2xl font-bold font-serif-sc text-gray-800">
-                 {userName ? `${userName}的` : ''}命盘分析报告
+                 {userName ? format(t.app.reportTitleNamed, { name: userName }) : t.app.reportTitle}
                </h2>
-               <button 
-                 onClick={() => setResult(null)}
-                 className="text-indigo-600 hover:text-indigo-800 font-medium text-sm"
-               >
-                 ← 重新排盘
-               </button>
+               <div className="flex items-center gap-4">
+                 {!readOnly && (
+                   <button
+                     onClick={handleShare}
+                     className="flex items-center gap-1 text-gray-600 hover:text-gray-900 font-medium text-sm"
+                     title={t.app.shareTitle}
+                   >
+                     <Share2 className="w-4 h-4" />
+                     {t.app.share}
+                   </button>
+                 )}
+                 <button
+                   onClick={() => currentReading && downloadReading(currentReading)}
+                   className="flex items-center gap-1 text-gray-600 hover:text-gray-900 font-medium text-sm"
+                   title={t.app.exportTitle}
+                 >
+                   <Download className="w-4 h-4" />
+                   {t.app.export}
+                 </button>
+                 <button
+                   onClick={() => currentReading && printReport(currentReading)}
+                   className="flex items-center gap-1 text-gray-600 hover:text-gray-900 font-medium text-sm"
+                   title={t.app.pdfTitle}
+                 >
+                   <FileText className="w-4 h-4" />
+                   PDF
+                 </button>
+                 <button
+                   onClick={handleExportPng}
+                   className="flex items-center gap-1 text-gray-600 hover:text-gray-900 font-medium text-sm"
+                   title={t.app.imageTitle}
+                 >
+                   <ImageDown className="w-4 h-4" />
+                   {t.app.image}
+                 </button>
+                 <button 
+                   onClick={closeReading}
+                   className="text-indigo-600 hover:text-indigo-800 font-medium text-sm"
+                 >
+                   {t.app.restart}
+                 </button>
+               </div>
             </div>
 
+            {readOnly && (
+              <div className="flex items-center gap-2 text-sm text-indigo-800 bg-indigo-50 border border-indigo-100 rounded-lg px-4 py-3 -mt-8">
+                <Eye className="w-4 h-4 flex-shrink-0" />
+                <p>{t.app.readOnlyNotice}</p>
+              </div>
+            )}
+            {actionNotice && (
+              <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg px-4 py-3 -mt-8 break-all">
+                {actionNotice}
+              </p>
+            )}
+
             {/* The Chart */}
             <section className="space-y-4">
               <h3 className="text-xl font-bold text-gray-700 flex items-center gap-2">
                  <span className="w-1 h-6 bg-indigo-600 rounded-full"></span>
-                 流年大运走势图 (100年)
+                 {t.app.chartTitle}
               </h3>
               <p className="text-sm text-gray-500 mb-2">
-                <span className="text-green-600 font-bold">绿色K线</span> 代表运势上涨（吉），
-                <span className="text-red-600 font-bold">红色K线</span> 代表运势下跌（凶）。
-                (点击K线查看流年详批)
+                {formatParts(t.app.chartLegend, {
+                  green: <span className="text-green-600 font-bold">{t.app.greenCandle}</span>,
+                  red: <span className="text-red-600 font-bold">{t.app.redCandle}</span>,
+                })}
               </p>
-              <LifeKLineChart data={result.chartData} />
+              <div ref={chartContainerRef}>
+                <LifeKLineChart
+                  data={result.chartData}
+                  showToolbar
+                  turningPoints={turningPoints}
+                  onViewMonthly={handleViewMonthly}
+                  highlightYears={highlightYears}
+                />
+              </div>
+              {monthlyPoint && currentReading && (
+                <MonthlyPanel
+                  point={monthlyPoint}
+                  monthly={getCachedMonthly(currentReading, monthlyPoint.year) ?? null}
+                  loading={monthlyLoading}
+                  status={monthlyStatus}
+                  error={monthlyError}
+                  onRetry={() => handleViewMonthly(monthlyPoint)}
+                  onClose={closeMonthly}
+                />
+              )}
+              {outlook && <OutlookStrip outlook={outlook} />}
+              {result.corrections && result.corrections.length > 0 && (
+                <details className="text-xs text-amber-800 bg-amber-50 border border-amber-100 rounded-lg px-4 py-2">
+                  <summary className="cursor-pointer flex items-center gap-2 font-bold">
+                    <Wrench className="w-3.5 h-3.5" />
+                    {format(t.app.corrections, { count: result.corrections.length })}
+                  </summary>
+                  <ul className="mt-2 space-y-0.5 font-mono max-h-40 overflow-y-auto">
+                    {result.corrections.map((c, i) => (
+                      <li key={i}>
+                        {c.year} ({format(t.common.age, { age: c.age })}) {c.field === 'ganZhi' ? t.app.correctionGanZhi : t.app.correctionDaYun}: {c.original || t.common.empty} → {c.corrected}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+              {result.warnings && result.warnings.length > 0 && (
+                <details className="text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded-lg px-4 py-2">
+                  <summary className="cursor-pointer flex items-center gap-2 font-bold">
+                    <ShieldAlert className="w-3.5 h-3.5" />
+                    {format(t.app.warnings, { count: result.warnings.length })}
+                  </summary>
+                  <ul className="mt-2 space-y-0.5 max-h-40 overflow-y-auto">
+                    {result.warnings.map((w, i) => (
+                      <li key={i}>
+                        <span className="font-mono text-gray-400 mr-2">{w.code}</span>{w.message}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
             </section>
 
+            {currentReading && (
+              <ComparisonPanel
+                reading={currentReading}
+                candidates={readings.filter(r => r.id !== currentReading.id)}
+                partner={partner}
+                summary={comparison}
+                onSelect={setPartner}
+              />
+            )}
+
             {/* The Text Report */}
             <section>
-               <AnalysisResult analysis={result.analysis} />
+               <AnalysisResult
+                 analysis={result.analysis}
+                 turningPoints={turningPoints}
+                 compatibility={currentReading && partner && comparison ? {
+                   names: [getPersonName(currentReading, t.common.self), getPersonName(partner, t.common.partner)],
+                   summary: comparison,
+                 } : undefined}
+               />
             </section>
+
+            {currentReading && (
+              <ChatPanel
+                messages={currentReading.chat ?? []}
+                suggestions={chatSuggestions}
+                loading={chatLoading}
+                status={chatStatus}
+                error={chatError}
+                disabledReason={readOnly && !getProvider(currentReading.input.provider).offline
+                  ? t.app.chatReadOnly
+                  : null}
+                highlightYears={highlightYears}
+                onAsk={handleAsk}
+                onHighlight={handleHighlight}
+                onClear={handleClearChat}
+              />
+            )}
           </div>
         )}
       </main>
 
       {/* Footer */}
-      <footer className="w-full bg-gray-900 text-gray-400 py-8 mt-auto">
+      <footer className="w-full bg-gray-900 text-gray-400 py-8 mt-auto print:hidden">
         <div className="max-w-7xl mx-auto px-4 text-center text-sm">
-          <p>&copy; {new Date().getFullYear()} 人生K线项目 潜学天下 | 仅供娱乐与文化研究，请勿迷信</p>
+          <p>&copy; {format(t.app.footer, { year: new Date().getFullYear() })}</p>
         </div>
       </footer>
+
+      {/* 打印 / 导出 PDF 时显示的完整报告 */}
+      {currentReading && <PrintableReport reading={currentReading} />}
     </div>
   );
 };
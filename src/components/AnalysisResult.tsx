@@ -1,10 +1,21 @@
 
 import React from 'react';
 import { AnalysisData } from '../types';
-import { ScrollText, Briefcase, Coins, Heart, Activity, Users, Star, Info } from 'lucide-react';
+import { ComparisonSummary } from '../services/comparisonService';
+import { TurningPoint, TurningPointAnalysis } from '../services/turningPointService';
+import { Translations, format, useI18n } from '../i18n';
+import { ScrollText, Briefcase, Coins, Heart, Activity, Users, Star, Info, HeartHandshake, Milestone } from 'lucide-react';
+
+// 双人对比时的合盘结果
+export interface CompatibilityInfo {
+  names: [string, string];
+  summary: ComparisonSummary;
+}
 
 interface AnalysisResultProps {
   analysis: AnalysisData;
+  compatibility?: CompatibilityInfo;
+  turningPoints?: TurningPointAnalysis;
 }
 
 const ScoreBar = ({ score }: { score: number }) => {
@@ -52,20 +63,141 @@ const Card = ({ title, icon: Icon, content, score, colorClass }: any) => (
   </div>
 );
 
-const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis }) => {
+const CompatibilitySection = ({ names, summary }: CompatibilityInfo) => {
+  const { t } = useI18n();
+  const text = t.compatibility;
+  const { overlapCount, bothGood, bothBad, correlation, relations } = summary;
+  const trendText = correlation >= 0.3 ? text.trendSync : correlation <= -0.3 ? text.trendOpposite : text.trendIndependent;
+
+  return (
+    <div className="bg-gradient-to-br from-amber-50 to-white p-6 rounded-xl border border-amber-100 shadow-sm">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <h3 className="flex items-center gap-2 font-serif-sc font-bold text-xl text-amber-900">
+          <HeartHandshake className="w-5 h-5" />
+          {format(text.title, { a: names[0], b: names[1] })}
+        </h3>
+        <div className="w-full md:w-1/3">
+          <ScoreBar score={summary.score} />
+        </div>
+      </div>
+      <div className="text-gray-700 text-sm leading-relaxed space-y-2">
+        <p>
+          <span className="font-bold">{text.relations}</span>
+          {relations.length > 0
+            ? relations
+                .map(r => format(text.relation, { position: text.positions[r.position], pair: r.pair, kind: text.kinds[r.kind] })
+                  + (r.effect > 0 ? text.relationGood : text.relationBad))
+                .join(text.relationSeparator)
+            : text.noRelations}
+        </p>
+        <p>
+          <span className="font-bold">{text.trend}</span>
+          {format(text.trendText, {
+            overlap: overlapCount,
+            good: bothGood.length,
+            bad: bothBad.length,
+            correlation: correlation.toFixed(2),
+            trend: trendText,
+          })}
+        </p>
+        <p className="text-xs text-gray-500">{text.note}</p>
+      </div>
+    </div>
+  );
+};
+
+const yearText = ({ point }: TurningPoint, t: Translations) =>
+  format(t.turning.year, { year: point.year, ganZhi: point.ganZhi, age: point.age });
+
+const TurningList = ({ title, items, className }: { title: string; items: React.ReactNode[]; className: string }) => {
+  const { t } = useI18n();
+  return (
+    <div>
+      <h4 className={`text-sm font-bold mb-2 ${className}`}>{title}</h4>
+      {items.length > 0 ? (
+        <ul className="space-y-1 text-xs text-gray-700">{items}</ul>
+      ) : (
+        <p className="text-xs text-gray-400">{t.turning.none}</p>
+      )}
+    </div>
+  );
+};
+
+const TurningPointSection = ({ analysis }: { analysis: TurningPointAnalysis }) => {
+  const { t } = useI18n();
+  const text = t.turning;
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-100 shadow-sm">
+      <h3 className="flex items-center gap-2 font-serif-sc font-bold text-xl text-gray-800 mb-4">
+        <Milestone className="w-5 h-5" />
+        {text.title}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <TurningList
+          title={text.peaks}
+          className="text-green-700"
+          items={analysis.peaks.map(tp => (
+            <li key={tp.point.age}>{yearText(tp, t)} {format(text.high, { value: tp.point.high })}</li>
+          ))}
+        />
+        <TurningList
+          title={text.troughs}
+          className="text-red-700"
+          items={analysis.troughs.map(tp => (
+            <li key={tp.point.age}>{yearText(tp, t)} {format(text.low, { value: tp.point.low })}</li>
+          ))}
+        />
+        <TurningList
+          title={text.phases}
+          className="text-indigo-700"
+          items={analysis.phases.map(phase => (
+            <li key={phase.from.age}>
+              <span className={`font-bold ${phase.kind === 'bull' ? 'text-green-700' : 'text-red-700'}`}>
+                {phase.kind === 'bull' ? text.bull : text.bear}
+              </span>{' '}
+              {format(text.phaseRange, {
+                fromYear: phase.from.year,
+                toYear: phase.to.year,
+                fromAge: phase.from.age,
+                toAge: phase.to.age,
+              })}
+              {phase.change > 0 ? '+' : ''}{phase.change}
+            </li>
+          ))}
+        />
+        <TurningList
+          title={text.drops}
+          className="text-red-700"
+          items={analysis.drops.map(tp => (
+            <li key={tp.point.age}>{yearText(tp, t)} {format(text.drop, { value: tp.value })}</li>
+          ))}
+        />
+      </div>
+      <p className="text-xs text-gray-500 mt-4">{text.note}</p>
+    </div>
+  );
+};
+
+const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis, compatibility, turningPoints }) => {
+  const { t } = useI18n();
+  const text = t.analysis;
+  const scoreRows = [
+    { from: 0, to: 2, label: text.terrible, className: 'bg-red-100 text-red-600' },
+    { from: 3, to: 4, label: text.poor, className: 'bg-orange-100 text-orange-600' },
+    { from: 5, to: 6, label: text.average, className: 'bg-yellow-100 text-yellow-700' },
+    { from: 7, to: 8, label: text.good, className: 'bg-indigo-100 text-indigo-600' },
+    { from: 9, to: 10, label: text.excellent, className: 'bg-green-100 text-green-600' },
+  ];
   return (
     <div className="w-full space-y-8 animate-fade-in-up">
       {/* Bazi Pillars */}
       <div className="flex justify-center gap-2 md:gap-8 bg-gray-900 text-amber-50 p-6 rounded-xl shadow-lg overflow-x-auto">
-        {analysis.bazi.map((pillar, index) => {
-          const labels = ['年柱', '月柱', '日柱', '时柱'];
-          return (
-            <div key={index} className="text-center min-w-[60px]">
-              <div className="text-xs text-gray-400 mb-1">{labels[index]}</div>
-              <div className="text-xl md:text-3xl font-serif-sc font-bold tracking-widest">{pillar}</div>
-            </div>
-          );
-        })}
+        {analysis.bazi.map((pillar, index) => (
+          <div key={index} className="text-center min-w-[60px]">
+            <div className="text-xs text-gray-400 mb-1">{t.common.pillars[index]}</div>
+            <div className="text-xl md:text-3xl font-serif-sc font-bold tracking-widest">{pillar}</div>
+          </div>
+        ))}
       </div>
 
       {/* Summary with Score */}
@@ -73,7 +205,7 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis }) => {
         <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
           <h3 className="flex items-center gap-2 font-serif-sc font-bold text-xl text-indigo-900">
             <ScrollText className="w-5 h-5" />
-            命理总评
+            {text.summary}
           </h3>
           <div className="w-full md:w-1/3">
              <ScoreBar score={analysis.summaryScore} />
@@ -82,38 +214,42 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis }) => {
         <p className="text-gray-700 leading-relaxed whitespace-pre-wrap font-medium">{analysis.summary}</p>
       </div>
 
+      {compatibility && <CompatibilitySection {...compatibility} />}
+
+      {turningPoints && <TurningPointSection analysis={turningPoints} />}
+
       {/* Grid for categorical analysis with Scores */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <Card 
-          title="事业行业" 
+          title={text.industry} 
           icon={Briefcase} 
           content={analysis.industry} 
           score={analysis.industryScore}
           colorClass="text-blue-600" 
         />
         <Card 
-          title="财富层级" 
+          title={text.wealth} 
           icon={Coins} 
           content={analysis.wealth} 
           score={analysis.wealthScore}
           colorClass="text-amber-600" 
         />
         <Card 
-          title="婚姻情感" 
+          title={text.marriage} 
           icon={Heart} 
           content={analysis.marriage} 
           score={analysis.marriageScore}
           colorClass="text-pink-600" 
         />
         <Card 
-          title="身体健康" 
+          title={text.health} 
           icon={Activity} 
           content={analysis.health} 
           score={analysis.healthScore}
           colorClass="text-emerald-600" 
         />
         <Card 
-          title="六亲关系" 
+          title={text.family} 
           icon={Users} 
           content={analysis.family} 
           score={analysis.familyScore}
@@ -122,35 +258,24 @@ const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis }) => {
         
         {/* Static Score Explanation Card */}
         <Card
-          title="评分讲解"
+          title={text.scoreGuide}
           icon={Info}
           colorClass="text-gray-600"
           content={
             <div className="space-y-4">
               <ul className="space-y-1.5 font-mono text-xs md:text-sm">
-                <li className="flex justify-between items-center border-b border-gray-100 pb-1">
-                  <span>0-2分</span> 
-                  <span className="text-xs px-2 py-0.5 bg-red-100 text-red-600 rounded font-bold">极差</span>
-                </li>
-                <li className="flex justify-between items-center border-b border-gray-100 pb-1">
-                  <span>3-4分</span> 
-                  <span className="text-xs px-2 py-0.5 bg-orange-100 text-orange-600 rounded font-bold">差</span>
-                </li>
-                <li className="flex justify-between items-center border-b border-gray-100 pb-1">
-                  <span>5-6分</span> 
-                  <span className="text-xs px-2 py-0.5 bg-yellow-100 text-yellow-700 rounded font-bold">一般</span>
-                </li>
-                <li className="flex justify-between items-center border-b border-gray-100 pb-1">
-                  <span>7-8分</span> 
-                  <span className="text-xs px-2 py-0.5 bg-indigo-100 text-indigo-600 rounded font-bold">好</span>
-                </li>
-                <li className="flex justify-between items-center">
-                  <span>9-10分</span> 
-                  <span className="text-xs px-2 py-0.5 bg-green-100 text-green-600 rounded font-bold">极好</span>
-                </li>
+                {scoreRows.map((row, index) => (
+                  <li
+                    key={row.from}
+                    className={`flex justify-between items-center ${index < scoreRows.length - 1 ? 'border-b border-gray-100 pb-1' : ''}`}
+                  >
+                    <span>{format(text.scoreRange, { from: row.from, to: row.to })}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded font-bold ${row.className}`}>{row.label}</span>
+                  </li>
+                ))}
               </ul>
               <p className="text-xs text-black leading-relaxed border-t border-gray-100 pt-2 text-justify">
-                注：命运还受环境和个人选择影响，八字趋势不能完全代表真实人生，命理学不是玄学，而是帮助我们在人生列车上做出更好选择的哲学工具。一命二运三风水 四积阴德五读书 六名七相八敬神 九遇贵人十养生。
+                {text.scoreNote}
               </p>
             </div>
           }
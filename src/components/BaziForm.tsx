@@ -1,33 +1,95 @@
 
-import React, { useState, useMemo } from 'react';
-import { UserInput, Gender } from '../types';
-import { Loader2, Sparkles, AlertCircle, TrendingUp, Settings } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { UserInput, Gender, LLMProvider, RuntimeConfig } from '../types';
+import { calculateFourPillars, parseBirthMoment, FourPillars } from '../services/calendarService';
+import { calculateStartAge, getFirstDaYun, isDaYunForward } from '../services/daYunService';
+import { DEFAULT_TIMEOUT_SECONDS, MAX_RETRIES } from '../services/chatClient';
+import { PROVIDERS, getProvider } from '../services/providers';
+import { DEFAULT_TEMPLATE_ID } from '../services/promptTemplateService';
+import { isModelAllowed, resolveProviderDefaults } from '../services/runtimeConfigService';
+import { format, useI18n } from '../i18n';
+import { Loader2, Sparkles, TrendingUp, Settings, CalendarClock, XCircle } from 'lucide-react';
+import TemplatePicker from './TemplatePicker';
+
+// 按出生时间、性别与年/月柱排出起运年龄和第一步大运；排不出的项清空，
+// 以免留下与当前四柱不符的旧值
+const withDerivedDaYun = (data: UserInput): UserInput => {
+  const moment = parseBirthMoment(data.birthDate, data.birthTime);
+  const isForward = isDaYunForward(data.gender, data.yearPillar);
+  return {
+    ...data,
+    startAge: moment ? String(calculateStartAge(moment, isForward).startAge) : '',
+    firstDaYun: getFirstDaYun(data.monthPillar, isForward),
+  };
+};
 
 interface BaziFormProps {
   onSubmit: (data: UserInput) => void;
+  onCancel: () => void;
   isLoading: boolean;
+  runtimeConfig: RuntimeConfig;
 }
 
-const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
+const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, onCancel, isLoading, runtimeConfig }) => {
+  const { language, t } = useI18n();
+  const [initialDefaults] = useState(() => resolveProviderDefaults('openai', runtimeConfig));
+  // 当前接口类型的默认地址与模型，运行时配置更新时据此判断输入框是否仍是默认值。只在副作用与事件中读写
+  const defaultsRef = useRef(initialDefaults);
   const [formData, setFormData] = useState<UserInput>({
     name: '',
     gender: Gender.MALE,
     birthYear: '',
+    birthDate: '',
+    birthTime: '',
     yearPillar: '',
     monthPillar: '',
     dayPillar: '',
     hourPillar: '',
     startAge: '',
     firstDaYun: '',
-    modelName: 'gemini-3-pro-preview',
-    apiBaseUrl: 'https://max.openai365.top/v1',
+    provider: 'openai',
+    modelName: initialDefaults.modelName,
+    apiBaseUrl: initialDefaults.apiBaseUrl,
     apiKey: '',
+    stream: true,
+    timeoutSeconds: String(DEFAULT_TIMEOUT_SECONDS),
+    generationMode: 'single',
+    templateId: DEFAULT_TEMPLATE_ID,
   });
 
+  // 用户手动改过起运年龄或第一步大运后，改年/月柱或性别时不再自动覆盖
+  const [daYunEdited, setDaYunEdited] = useState(false);
+
   const [formErrors, setFormErrors] = useState<{modelName?: string, apiBaseUrl?: string, apiKey?: string}>({});
 
+  // 由出生日期与时间自动排出的四柱，用于标记哪些柱被手动修改过
+  const computedPillars = useMemo<FourPillars | null>(() => {
+    const moment = parseBirthMoment(formData.birthDate, formData.birthTime);
+    return moment ? calculateFourPillars(moment) : null;
+  }, [formData.birthDate, formData.birthTime]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
+
+    // 修改出生时间时重新排盘，覆盖四柱与大运；之后仍可逐项手动修改
+    if (name === 'birthDate' || name === 'birthTime') {
+      setFormData((prev) => {
+        const next = { ...prev, [name]: value };
+        const moment = parseBirthMoment(next.birthDate, next.birthTime);
+        if (!moment) return next;
+        return withDerivedDaYun({ ...next, birthYear: String(moment.year), ...calculateFourPillars(moment) });
+      });
+      setDaYunEdited(false);
+      return;
+    }
+
+    // 年柱决定顺逆，月柱决定第一步大运，改动后随之重排
+    if ((name === 'yearPillar' || name === 'monthPillar') && !daYunEdited) {
+      setFormData((prev) => withDerivedDaYun({ ...prev, [name]: value }));
+      return;
+    }
+
+    if (name === 'startAge' || name === 'firstDaYun') setDaYunEdited(true);
     setFormData((prev) => ({ ...prev, [name]: value }));
     // Clear error when user types
     if (name === 'apiBaseUrl' || name === 'apiKey' || name === 'modelName') {
@@ -35,19 +97,54 @@ const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
     }
   };
 
+  const handleGenderChange = (gender: Gender) => {
+    setFormData(prev => (daYunEdited ? { ...prev, gender } : withDerivedDaYun({ ...prev, gender })));
+  };
+
+  // 运行时配置的默认值变化时，仍是旧默认值的输入框跟着更新，用户改过的保持不变
+  useEffect(() => {
+    const previous = defaultsRef.current;
+    const next = resolveProviderDefaults(previous.provider, runtimeConfig);
+    defaultsRef.current = next;
+    if (next.apiBaseUrl === previous.apiBaseUrl && next.modelName === previous.modelName) return;
+    setFormData(prev => (prev.provider !== next.provider ? prev : {
+      ...prev,
+      apiBaseUrl: prev.apiBaseUrl === previous.apiBaseUrl ? next.apiBaseUrl : prev.apiBaseUrl,
+      modelName: prev.modelName === previous.modelName ? next.modelName : prev.modelName,
+    }));
+  }, [runtimeConfig]);
+
+  // 切换接口类型时换上该接口的默认地址与模型
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const defaults = resolveProviderDefaults(e.target.value as LLMProvider, runtimeConfig);
+    defaultsRef.current = defaults;
+    setFormData(prev => ({
+      ...prev,
+      provider: defaults.provider,
+      apiBaseUrl: defaults.apiBaseUrl,
+      modelName: defaults.modelName,
+    }));
+    setFormErrors({});
+  };
+
+  const currentProvider = getProvider(formData.provider);
+  const providerDefaults = resolveProviderDefaults(formData.provider, runtimeConfig);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     // Validate API Config
     const errors: {modelName?: string, apiBaseUrl?: string, apiKey?: string} = {};
     if (!formData.modelName.trim()) {
-      errors.modelName = '请输入模型名称';
+      errors.modelName = t.form.modelRequired;
+    } else if (!currentProvider.offline && !isModelAllowed(runtimeConfig, formData.modelName)) {
+      errors.modelName = t.form.modelNotAllowed;
     }
-    if (!formData.apiBaseUrl.trim()) {
-      errors.apiBaseUrl = '请输入 API Base URL';
+    if (!currentProvider.offline && !formData.apiBaseUrl.trim()) {
+      errors.apiBaseUrl = t.form.baseUrlRequired;
     }
-    if (!formData.apiKey.trim()) {
-      errors.apiKey = '请输入 API Key';
+    if (currentProvider.requiresApiKey && !formData.apiKey.trim()) {
+      errors.apiKey = t.form.apiKeyRequired;
     }
 
     if (Object.keys(errors).length > 0) {
@@ -55,35 +152,29 @@ const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
       return;
     }
 
-    onSubmit(formData);
+    // 报告按当前界面语言生成
+    onSubmit({ ...formData, language });
   };
 
   // Calculate direction for UI feedback
   const daYunDirectionInfo = useMemo(() => {
-    if (!formData.yearPillar) return '等待输入年柱...';
-    
-    const firstChar = formData.yearPillar.trim().charAt(0);
-    const yangStems = ['甲', '丙', '戊', '庚', '壬'];
-    const yinStems = ['乙', '丁', '己', '辛', '癸'];
-    
-    let isYangYear = true; // default assume Yang if unknown
-    if (yinStems.includes(firstChar)) isYangYear = false;
-    
-    let isForward = false;
-    if (formData.gender === Gender.MALE) {
-      isForward = isYangYear; // Male Yang = Forward, Male Yin = Backward
-    } else {
-      isForward = !isYangYear; // Female Yin = Forward, Female Yang = Backward
-    }
-    
-    return isForward ? '顺行 (阳男/阴女)' : '逆行 (阴男/阳女)';
-  }, [formData.yearPillar, formData.gender]);
+    if (!formData.yearPillar) return t.form.waitingYearPillar;
+    return isDaYunForward(formData.gender, formData.yearPillar) ? t.form.forward : t.form.backward;
+  }, [formData.yearPillar, formData.gender, t]);
+
+  // 出生到交节的距离折算成的起运时间
+  const startAgeInfo = useMemo(() => {
+    const moment = parseBirthMoment(formData.birthDate, formData.birthTime);
+    if (!moment || !formData.yearPillar) return null;
+    const detail = calculateStartAge(moment, isDaYunForward(formData.gender, formData.yearPillar));
+    return format(t.form.startAgeDetail, { years: detail.years, months: detail.months, days: detail.days });
+  }, [formData.birthDate, formData.birthTime, formData.yearPillar, formData.gender, t]);
 
   return (
     <div className="w-full max-w-md bg-white p-8 rounded-2xl shadow-xl border border-gray-100">
       <div className="text-center mb-6">
-        <h2 className="text-3xl font-serif-sc font-bold text-gray-800 mb-2">八字排盘</h2>
-        <p className="text-gray-500 text-sm">请输入四柱与大运信息以生成分析</p>
+        <h2 className="text-3xl font-serif-sc font-bold text-gray-800 mb-2">{t.form.title}</h2>
+        <p className="text-gray-500 text-sm">{t.form.subtitle}</p>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-5">
@@ -91,40 +182,40 @@ const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
         {/* Name & Gender */}
         <div className="grid grid-cols-2 gap-4">
           <div>
-             <label className="block text-sm font-medium text-gray-700 mb-1">姓名 (可选)</label>
+             <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.name}</label>
              <input
               type="text"
               name="name"
               value={formData.name}
               onChange={handleChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
-              placeholder="姓名"
+              placeholder={t.form.namePlaceholder}
             />
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">性别</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.gender}</label>
             <div className="flex bg-gray-100 rounded-lg p-1">
               <button
                 type="button"
-                onClick={() => setFormData({ ...formData, gender: Gender.MALE })}
+                onClick={() => handleGenderChange(Gender.MALE)}
                 className={`flex-1 py-1.5 rounded-md text-xs font-medium transition ${
                   formData.gender === Gender.MALE
                     ? 'bg-white text-indigo-700 shadow-sm'
                     : 'text-gray-500 hover:text-gray-700'
                 }`}
               >
-                乾造 (男)
+                {t.form.male}
               </button>
               <button
                 type="button"
-                onClick={() => setFormData({ ...formData, gender: Gender.FEMALE })}
+                onClick={() => handleGenderChange(Gender.FEMALE)}
                 className={`flex-1 py-1.5 rounded-md text-xs font-medium transition ${
                   formData.gender === Gender.FEMALE
                     ? 'bg-white text-pink-700 shadow-sm'
                     : 'text-gray-500 hover:text-gray-700'
                 }`}
               >
-                坤造 (女)
+                {t.form.female}
               </button>
             </div>
           </div>
@@ -134,71 +225,106 @@ const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
         <div className="bg-amber-50 p-4 rounded-xl border border-amber-100">
           <div className="flex items-center gap-2 mb-3 text-amber-800 text-sm font-bold">
             <Sparkles className="w-4 h-4" />
-            <span>输入四柱干支 (必填)</span>
+            <span>{t.form.pillarsSection}</span>
           </div>
           
-          {/* Birth Year Input - Added as requested */}
+          {/* Birth Date & Time - pillars are derived from these */}
           <div className="mb-4">
-             <label className="block text-xs font-bold text-gray-600 mb-1">出生年份 (阳历)</label>
-             <input
-                type="number"
-                name="birthYear"
+            <div className="flex items-center gap-1 mb-1 text-xs font-bold text-gray-600">
+              <CalendarClock className="w-3.5 h-3.5" />
+              <span>{t.form.birthTime}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <input
+                type="date"
+                name="birthDate"
+                required
+                min="1900-01-01"
+                max="2100-12-31"
+                value={formData.birthDate}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white font-bold"
+              />
+              <input
+                type="time"
+                name="birthTime"
                 required
-                min="1900"
-                max="2100"
-                value={formData.birthYear}
+                value={formData.birthTime}
                 onChange={handleChange}
-                placeholder="如: 1990"
                 className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white font-bold"
               />
+            </div>
+            <p className="text-xs text-amber-700/70 mt-2">
+              {t.form.pillarsHint}
+            </p>
           </div>
 
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <label className="block text-xs font-bold text-gray-600 mb-1">年柱 (Year)</label>
+              <label className="block text-xs font-bold text-gray-600 mb-1">
+                {t.form.yearPillar}
+                {computedPillars && formData.yearPillar !== computedPillars.yearPillar && (
+                  <span className="ml-1 font-normal text-amber-600">{t.form.edited}</span>
+                )}
+              </label>
               <input
                 type="text"
                 name="yearPillar"
                 required
                 value={formData.yearPillar}
                 onChange={handleChange}
-                placeholder="如: 甲子"
+                placeholder={format(t.form.example, { value: '甲子' })}
                 className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-center font-serif-sc font-bold"
               />
             </div>
             <div>
-              <label className="block text-xs font-bold text-gray-600 mb-1">月柱 (Month)</label>
+              <label className="block text-xs font-bold text-gray-600 mb-1">
+                {t.form.monthPillar}
+                {computedPillars && formData.monthPillar !== computedPillars.monthPillar && (
+                  <span className="ml-1 font-normal text-amber-600">{t.form.edited}</span>
+                )}
+              </label>
               <input
                 type="text"
                 name="monthPillar"
                 required
                 value={formData.monthPillar}
                 onChange={handleChange}
-                placeholder="如: 丙寅"
+                placeholder={format(t.form.example, { value: '丙寅' })}
                 className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-center font-serif-sc font-bold"
               />
             </div>
             <div>
-              <label className="block text-xs font-bold text-gray-600 mb-1">日柱 (Day)</label>
+              <label className="block text-xs font-bold text-gray-600 mb-1">
+                {t.form.dayPillar}
+                {computedPillars && formData.dayPillar !== computedPillars.dayPillar && (
+                  <span className="ml-1 font-normal text-amber-600">{t.form.edited}</span>
+                )}
+              </label>
               <input
                 type="text"
                 name="dayPillar"
                 required
                 value={formData.dayPillar}
                 onChange={handleChange}
-                placeholder="如: 戊辰"
+                placeholder={format(t.form.example, { value: '戊辰' })}
                 className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-center font-serif-sc font-bold"
               />
             </div>
             <div>
-              <label className="block text-xs font-bold text-gray-600 mb-1">时柱 (Hour)</label>
+              <label className="block text-xs font-bold text-gray-600 mb-1">
+                {t.form.hourPillar}
+                {computedPillars && formData.hourPillar !== computedPillars.hourPillar && (
+                  <span className="ml-1 font-normal text-amber-600">{t.form.edited}</span>
+                )}
+              </label>
               <input
                 type="text"
                 name="hourPillar"
                 required
                 value={formData.hourPillar}
                 onChange={handleChange}
-                placeholder="如: 壬戌"
+                placeholder={format(t.form.example, { value: '壬戌' })}
                 className="w-full px-3 py-2 border border-amber-200 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white text-center font-serif-sc font-bold"
               />
             </div>
@@ -209,11 +335,11 @@ const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
         <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-100">
           <div className="flex items-center gap-2 mb-3 text-indigo-800 text-sm font-bold">
             <TrendingUp className="w-4 h-4" />
-            <span>大运排盘信息 (必填)</span>
+            <span>{t.form.daYunSection}</span>
           </div>
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <label className="block text-xs font-bold text-gray-600 mb-1">起运年龄 (虚岁)</label>
+              <label className="block text-xs font-bold text-gray-600 mb-1">{t.form.startAge}</label>
               <input
                 type="number"
                 name="startAge"
@@ -222,92 +348,198 @@ const BaziForm: React.FC<BaziFormProps> = ({ onSubmit, isLoading }) => {
                 max="100"
                 value={formData.startAge}
                 onChange={handleChange}
-                placeholder="如: 3"
+                placeholder={format(t.form.example, { value: 3 })}
                 className="w-full px-3 py-2 border border-indigo-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white text-center font-bold"
               />
             </div>
             <div>
-              <label className="block text-xs font-bold text-gray-600 mb-1">第一步大运</label>
+              <label className="block text-xs font-bold text-gray-600 mb-1">{t.form.firstDaYun}</label>
               <input
                 type="text"
                 name="firstDaYun"
                 required
                 value={formData.firstDaYun}
                 onChange={handleChange}
-                placeholder="如: 丁卯"
+                placeholder={format(t.form.example, { value: '丁卯' })}
                 className="w-full px-3 py-2 border border-indigo-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white text-center font-serif-sc font-bold"
               />
             </div>
           </div>
            <p className="text-xs text-indigo-600/70 mt-2 text-center">
-             当前大运排序规则：
+             {t.form.direction}
              <span className="font-bold text-indigo-900">{daYunDirectionInfo}</span>
           </p>
+          {startAgeInfo && (
+            <p className="text-xs text-indigo-600/70 mt-1 text-center">{startAgeInfo}</p>
+          )}
         </div>
 
+        {/* Interpretation School */}
+        <TemplatePicker
+          value={formData.templateId ?? DEFAULT_TEMPLATE_ID}
+          onChange={(templateId) => setFormData(prev => ({ ...prev, templateId }))}
+        />
+
         {/* API Configuration Section */}
         <div className="bg-gray-50 p-4 rounded-xl border border-gray-200">
           <div className="flex items-center gap-2 mb-3 text-gray-700 text-sm font-bold">
             <Settings className="w-4 h-4" />
-            <span>模型接口设置 (必填)</span>
+            <span>{t.form.apiSection}</span>
           </div>
           <div className="space-y-3">
              <div>
-               <label className="block text-xs font-bold text-gray-600 mb-1">使用模型</label>
-               <input
-                  type="text"
-                  name="modelName"
-                  value={formData.modelName}
-                  onChange={handleChange}
-                  placeholder="gemini-3-pro-preview"
-                  className={`w-full px-3 py-2 border rounded-lg text-xs font-mono outline-none ${formErrors.modelName ? 'border-red-500 bg-red-50' : 'border-gray-300 focus:ring-2 focus:ring-gray-400'}`}
-                />
-                {formErrors.modelName && <p className="text-red-500 text-xs mt-1">{formErrors.modelName}</p>}
-             </div>
-             <div>
-               <label className="block text-xs font-bold text-gray-600 mb-1">API Base URL</label>
-               <input
-                  type="text"
-                  name="apiBaseUrl"
-                  value={formData.apiBaseUrl}
-                  onChange={handleChange}
-                  placeholder="https://max.openai365.top/v1"
-                  className={`w-full px-3 py-2 border rounded-lg text-xs font-mono outline-none ${formErrors.apiBaseUrl ? 'border-red-500 bg-red-50' : 'border-gray-300 focus:ring-2 focus:ring-gray-400'}`}
-                />
-                {formErrors.apiBaseUrl && <p className="text-red-500 text-xs mt-1">{formErrors.apiBaseUrl}</p>}
-             </div>
-             <div>
-               <label className="block text-xs font-bold text-gray-600 mb-1">API Key</label>
-               <input
-                  type="password"
-                  name="apiKey"
-                  value={formData.apiKey}
-                  onChange={handleChange}
-                  placeholder="sk-..."
-                  className={`w-full px-3 py-2 border rounded-lg text-xs font-mono outline-none ${formErrors.apiKey ? 'border-red-500 bg-red-50' : 'border-gray-300 focus:ring-2 focus:ring-gray-400'}`}
-                />
-                {formErrors.apiKey && <p className="text-red-500 text-xs mt-1">{formErrors.apiKey}</p>}
+               <label className="block text-xs font-bold text-gray-600 mb-1">{t.form.provider}</label>
+               <select
+                  name="provider"
+                  value={formData.provider}
+                  onChange={handleProviderChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs outline-none bg-white focus:ring-2 focus:ring-gray-400"
+                >
+                  {PROVIDERS.map(provider => (
+                    <option key={provider.id} value={provider.id}>{t.providers[provider.id]}</option>
+                  ))}
+                </select>
              </div>
+             {currentProvider.offline ? (
+               <p className="text-xs text-gray-500 leading-relaxed">
+                 {t.form.demoHint}
+               </p>
+             ) : (
+               <>
+               <div>
+                 <label className="block text-xs font-bold text-gray-600 mb-1">{t.form.model}</label>
+                 <input
+                    type="text"
+                    name="modelName"
+                    value={formData.modelName}
+                    onChange={handleChange}
+                    placeholder={providerDefaults.modelName}
+                    list={runtimeConfig.allowedModels.length > 0 ? 'allowed-models' : undefined}
+                    className={`w-full px-3 py-2 border rounded-lg text-xs font-mono outline-none ${formErrors.modelName ? 'border-red-500 bg-red-50' : 'border-gray-300 focus:ring-2 focus:ring-gray-400'}`}
+                  />
+                  {runtimeConfig.allowedModels.length > 0 && (
+                    <>
+                      <datalist id="allowed-models">
+                        {runtimeConfig.allowedModels.map(model => <option key={model} value={model} />)}
+                      </datalist>
+                      <p className="text-xs text-gray-500 mt-1">{format(t.form.allowedModels, { models: runtimeConfig.allowedModels.join(', ') })}</p>
+                    </>
+                  )}
+                  {formErrors.modelName && <p className="text-red-500 text-xs mt-1">{formErrors.modelName}</p>}
+               </div>
+               <div>
+                 <label className="block text-xs font-bold text-gray-600 mb-1">API Base URL</label>
+                 <input
+                    type="text"
+                    name="apiBaseUrl"
+                    value={formData.apiBaseUrl}
+                    onChange={handleChange}
+                    placeholder={providerDefaults.apiBaseUrl}
+                    className={`w-full px-3 py-2 border rounded-lg text-xs font-mono outline-none ${formErrors.apiBaseUrl ? 'border-red-500 bg-red-50' : 'border-gray-300 focus:ring-2 focus:ring-gray-400'}`}
+                  />
+                  {formErrors.apiBaseUrl && <p className="text-red-500 text-xs mt-1">{formErrors.apiBaseUrl}</p>}
+               </div>
+               <div>
+                 <label className="block text-xs font-bold text-gray-600 mb-1">
+                   API Key{!currentProvider.requiresApiKey && <span className="font-normal text-gray-400">{t.form.optional}</span>}
+                 </label>
+                 <input
+                    type="password"
+                    name="apiKey"
+                    value={formData.apiKey}
+                    onChange={handleChange}
+                    placeholder="sk-..."
+                    className={`w-full px-3 py-2 border rounded-lg text-xs font-mono outline-none ${formErrors.apiKey ? 'border-red-500 bg-red-50' : 'border-gray-300 focus:ring-2 focus:ring-gray-400'}`}
+                  />
+                  {formErrors.apiKey && <p className="text-red-500 text-xs mt-1">{formErrors.apiKey}</p>}
+               </div>
+               <div>
+                 <label className="block text-xs font-bold text-gray-600 mb-1">{t.form.timeout}</label>
+                 <input
+                    type="number"
+                    name="timeoutSeconds"
+                    min="10"
+                    value={formData.timeoutSeconds}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono outline-none focus:ring-2 focus:ring-gray-400"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{format(t.form.retryHint, { max: MAX_RETRIES })}</p>
+               </div>
+               <div>
+                 <label className="block text-xs font-bold text-gray-600 mb-1">{t.form.mode}</label>
+                 <div className="flex bg-gray-200/60 rounded-lg p-1">
+                   <button
+                     type="button"
+                     onClick={() => setFormData(prev => ({ ...prev, generationMode: 'single' }))}
+                     className={`flex-1 py-1.5 rounded-md text-xs font-medium transition ${
+                       formData.generationMode === 'single'
+                         ? 'bg-white text-gray-900 shadow-sm'
+                         : 'text-gray-500 hover:text-gray-700'
+                     }`}
+                   >
+                     {t.form.single}
+                   </button>
+                   <button
+                     type="button"
+                     onClick={() => setFormData(prev => ({ ...prev, generationMode: 'chunked' }))}
+                     className={`flex-1 py-1.5 rounded-md text-xs font-medium transition ${
+                       formData.generationMode === 'chunked'
+                         ? 'bg-white text-gray-900 shadow-sm'
+                         : 'text-gray-500 hover:text-gray-700'
+                     }`}
+                   >
+                     {t.form.chunked}
+                   </button>
+                 </div>
+                 {formData.generationMode === 'chunked' && (
+                   <p className="text-xs text-gray-500 mt-1">{t.form.chunkedHint}</p>
+                 )}
+               </div>
+               <label className={`flex items-center gap-2 text-xs text-gray-600 select-none ${formData.generationMode === 'chunked' ? 'opacity-50' : 'cursor-pointer'}`}>
+                 <input
+                    type="checkbox"
+                    disabled={formData.generationMode === 'chunked'}
+                    checked={formData.stream}
+                    onChange={(e) => setFormData(prev => ({ ...prev, stream: e.target.checked }))}
+                    className="rounded border-gray-300"
+                  />
+                 {t.form.stream}
+               </label>
+               </>
+             )}
+             <p className="text-xs text-gray-500">{t.form.outputLanguage}</p>
           </div>
         </div>
 
-        <button
-          type="submit"
-          disabled={isLoading}
-          className="w-full bg-gradient-to-r from-indigo-900 to-gray-900 hover:from-black hover:to-black text-white font-bold py-3.5 rounded-xl shadow-lg transform transition-all hover:scale-[1.01] active:scale-[0.99] disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-        >
-          {isLoading ? (
-            <>
-              <Loader2 className="animate-spin h-5 w-5" />
-              <span>大师推演中(3-5分钟)</span>
-            </>
-          ) : (
-            <>
-              <Sparkles className="h-5 w-5 text-amber-300" />
-              <span>生成人生K线</span>
-            </>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="flex-1 bg-gradient-to-r from-indigo-900 to-gray-900 hover:from-black hover:to-black text-white font-bold py-3.5 rounded-xl shadow-lg transform transition-all hover:scale-[1.01] active:scale-[0.99] disabled:opacity-70 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="animate-spin h-5 w-5" />
+                <span>{t.form.submitting}</span>
+              </>
+            ) : (
+              <>
+                <Sparkles className="h-5 w-5 text-amber-300" />
+                <span>{t.form.submit}</span>
+              </>
+            )}
+          </button>
+          {isLoading && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 rounded-xl border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 font-bold text-sm flex items-center gap-1 transition"
+            >
+              <XCircle className="h-4 w-4" />
+              {t.common.cancel}
+            </button>
           )}
-        </button>
+        </div>
       </form>
     </div>
   );
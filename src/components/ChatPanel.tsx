@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage } from '../types';
+import { useI18n } from '../i18n';
+import { MessageCircle, Send, Loader2, Trash2, Highlighter } from 'lucide-react';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  suggestions: string[];           // 对话为空时的示例问题
+  loading: boolean;
+  status: string | null;           // 请求进度提示
+  error: string | null;
+  disabledReason?: string | null;  // 不能提问时的说明 (如分享链接只读)
+  highlightYears: number[];
+  onAsk: (question: string) => Promise<boolean>; // 成功后清空输入框
+  onHighlight: (years: number[]) => void;
+  onClear: () => void;
+}
+
+const ChatPanel: React.FC<ChatPanelProps> = ({
+  messages, suggestions, loading, status, error, disabledReason, highlightYears, onAsk, onHighlight, onClear,
+}) => {
+  const { t } = useI18n();
+  const [question, setQuestion] = useState('');
+  // 等待回答时先显示用户的问题
+  const [pending, setPending] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages.length, pending]);
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || loading || disabledReason) return;
+    setPending(trimmed);
+    setQuestion('');
+    const ok = await onAsk(trimmed);
+    setPending(null);
+    // 失败时把问题放回输入框，方便重试
+    if (!ok) setQuestion(trimmed);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    ask(question);
+  };
+
+  const isHighlighted = (years: number[]) =>
+    years.length > 0 && years.length === highlightYears.length && years.every(y => highlightYears.includes(y));
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-serif-sc font-bold text-xl text-gray-800">
+          <MessageCircle className="w-5 h-5 text-indigo-600" />
+          {t.chat.title}
+        </h3>
+        {messages.length > 0 && !disabledReason && (
+          <button
+            type="button"
+            onClick={() => window.confirm(t.chat.clearConfirm) && onClear()}
+            disabled={loading}
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-red-600 disabled:opacity-50"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            {t.chat.clear}
+          </button>
+        )}
+      </div>
+
+      <div ref={listRef} className="max-h-[480px] overflow-y-auto custom-scrollbar space-y-3">
+        {messages.length === 0 && !pending && (
+          <p className="text-sm text-gray-400">
+            {t.chat.empty}
+          </p>
+        )}
+        {messages.map((message, index) => (
+          message.role === 'user' ? (
+            <div key={index} className="flex justify-end">
+              <p className="max-w-[85%] bg-indigo-600 text-white text-sm rounded-xl rounded-br-sm px-4 py-2 whitespace-pre-wrap">
+                {message.content}
+              </p>
+            </div>
+          ) : (
+            <div key={index} className="max-w-[90%] bg-gray-50 border border-gray-100 rounded-xl rounded-bl-sm px-4 py-3 space-y-2">
+              <p className="text-sm text-gray-700 leading-relaxed whitespace-pre-wrap">{message.content}</p>
+              {message.years && message.years.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => onHighlight(isHighlighted(message.years!) ? [] : message.years!)}
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded border font-medium ${
+                      isHighlighted(message.years) ? 'bg-amber-500 border-amber-500 text-white' : 'border-amber-300 text-amber-700 hover:bg-amber-50'
+                    }`}
+                    title={t.chat.highlightTitle}
+                  >
+                    <Highlighter className="w-3 h-3" />
+                    {t.chat.highlight}
+                  </button>
+                  {message.years.map(year => (
+                    <button
+                      key={year}
+                      type="button"
+                      onClick={() => onHighlight([year])}
+                      className="px-2 py-0.5 rounded bg-white border border-gray-200 text-gray-600 font-mono hover:border-amber-400"
+                    >
+                      {year}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        ))}
+        {pending && (
+          <>
+            <div className="flex justify-end">
+              <p className="max-w-[85%] bg-indigo-600 text-white text-sm rounded-xl rounded-br-sm px-4 py-2 whitespace-pre-wrap">{pending}</p>
+            </div>
+            <p className="flex items-center gap-2 text-xs text-gray-500">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              {status || t.chat.thinking}
+            </p>
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{error}</p>}
+
+      {disabledReason ? (
+        <p className="text-xs text-gray-500 bg-gray-50 rounded-lg px-3 py-2">{disabledReason}</p>
+      ) : (
+        <>
+          {messages.length === 0 && !pending && (
+            <div className="flex flex-wrap gap-2">
+              {suggestions.map(suggestion => (
+                <button
+                  key={suggestion}
+                  type="button"
+                  onClick={() => ask(suggestion)}
+                  disabled={loading}
+                  className="text-xs px-3 py-1 rounded-full border border-indigo-200 text-indigo-700 hover:bg-indigo-50 disabled:opacity-50"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          )}
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={question}
+              onChange={e => setQuestion(e.target.value)}
+              placeholder={t.chat.placeholder}
+              disabled={loading}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-300 disabled:bg-gray-50"
+            />
+            <button
+              type="submit"
+              disabled={loading || !question.trim()}
+              className="flex items-center gap-1 px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+              {t.chat.send}
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChatPanel;
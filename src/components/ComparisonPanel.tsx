@@ -0,0 +1,201 @@
+import React, { useMemo } from 'react';
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceArea,
+  Legend,
+  TooltipProps,
+} from 'recharts';
+import { SavedReading } from '../types';
+import { ComparisonSummary, ComparisonYear, getPersonName, isGoodYear } from '../services/comparisonService';
+import { Users, X } from 'lucide-react';
+import { format, useI18n } from '../i18n';
+
+const COLOR_A = '#6366f1';
+const COLOR_B = '#f59e0b';
+
+interface ComparisonPanelProps {
+  reading: SavedReading;
+  candidates: SavedReading[];  // 可供对比的其他报告
+  partner: SavedReading | null;
+  summary: ComparisonSummary | null;
+  onSelect: (reading: SavedReading | null) => void;
+}
+
+// 连续年份合并成区间，用于背景着色
+const toYearRanges = (years: ComparisonYear[]): [number, number][] => {
+  const ranges: [number, number][] = [];
+  years.forEach(({ year }) => {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === year - 1) last[1] = year;
+    else ranges.push([year, year]);
+  });
+  return ranges;
+};
+
+type ComparisonTooltipProps = TooltipProps<number, string> & {
+  labels: string[]; // 两人的名字，顺序同图例
+};
+
+const ComparisonTooltip = ({ active, payload, labels }: ComparisonTooltipProps) => {
+  const { t } = useI18n();
+  if (!active || !payload || !payload.length) return null;
+  const { a, b, year } = payload[0].payload as ComparisonYear;
+
+  const row = (label: string, color: string, point: ComparisonYear['a']) => (
+    <p className="flex justify-between gap-4">
+      <span style={{ color }} className="font-bold">{label}</span>
+      {point ? (
+        <span className="text-gray-600">
+          {format(t.common.age, { age: point.age })} · {point.daYun} · {point.close}
+          <span className={isGoodYear(point) ? 'text-green-600 ml-1' : 'text-red-600 ml-1'}>
+            {isGoodYear(point) ? t.common.good : t.common.bad}
+          </span>
+        </span>
+      ) : (
+        <span className="text-gray-400">{t.common.noData}</span>
+      )}
+    </p>
+  );
+
+  return (
+    <div className="bg-white/95 p-3 rounded-lg shadow-xl border border-gray-200 text-xs space-y-1 min-w-[220px]">
+      <p className="font-serif-sc font-bold text-sm text-gray-800">{format(t.comparison.yearTitle, { year, ganZhi: (a ?? b)?.ganZhi ?? '' })}</p>
+      {row(labels[0], COLOR_A, a)}
+      {row(labels[1], COLOR_B, b)}
+    </div>
+  );
+};
+
+const YearChips = ({ years, className }: { years: ComparisonYear[]; className: string }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto custom-scrollbar">
+      {years.length === 0 && <span className="text-gray-400">{t.common.none}</span>}
+      {years.map(({ year }) => (
+        <span key={year} className={`font-mono px-1.5 py-0.5 rounded ${className}`}>{year}</span>
+      ))}
+    </div>
+  );
+};
+
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ reading, candidates, partner, summary, onSelect }) => {
+  const { t } = useI18n();
+  const text = t.comparison;
+  const labels = [getPersonName(reading, t.common.self), partner ? getPersonName(partner, t.common.partner) : t.common.partner];
+  const goodText = (good: boolean) => (good ? t.common.good : t.common.bad);
+
+  const chartData = useMemo(() => (summary?.years ?? []).map(entry => ({
+    ...entry,
+    closeA: entry.a?.close ?? null,
+    closeB: entry.b?.close ?? null,
+  })), [summary]);
+
+  const goodRanges = useMemo(() => toYearRanges(summary?.bothGood ?? []), [summary]);
+  const badRanges = useMemo(() => toYearRanges(summary?.bothBad ?? []), [summary]);
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <h3 className="text-xl font-bold text-gray-700 flex items-center gap-2">
+          <span className="w-1 h-6 bg-amber-500 rounded-full"></span>
+          <Users className="w-5 h-5" />
+          {text.title}
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={partner?.id ?? ''}
+            onChange={(e) => onSelect(candidates.find(c => c.id === e.target.value) ?? null)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-400 max-w-xs"
+          >
+            <option value="">{text.select}</option>
+            {candidates.map(c => (
+              <option key={c.id} value={c.id}>{c.title}</option>
+            ))}
+          </select>
+          {partner && (
+            <button type="button" onClick={() => onSelect(null)} className="text-gray-400 hover:text-gray-700" title={text.clear}>
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!partner && (
+        <p className="text-sm text-gray-500">
+          {candidates.length > 0
+            ? text.hint
+            : text.hintEmpty}
+        </p>
+      )}
+
+      {partner && summary && (
+        <>
+          <div className="w-full h-[420px] bg-white p-2 md:p-6 rounded-xl border border-gray-200 shadow-sm">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+                <XAxis
+                  dataKey="year"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tick={{ fontSize: 10, fill: '#6b7280' }}
+                  axisLine={{ stroke: '#e5e7eb' }}
+                  tickLine={false}
+                />
+                <YAxis domain={[0, 100]} tick={{ fontSize: 10, fill: '#6b7280' }} axisLine={false} tickLine={false} />
+                <Tooltip content={<ComparisonTooltip labels={labels} />} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+
+                {/* 同吉 / 同凶年份着色 */}
+                {goodRanges.map(([from, to]) => (
+                  <ReferenceArea key={`good-${from}`} x1={from - 0.5} x2={to + 0.5} fill="#22c55e" fillOpacity={0.08} />
+                ))}
+                {badRanges.map(([from, to]) => (
+                  <ReferenceArea key={`bad-${from}`} x1={from - 0.5} x2={to + 0.5} fill="#ef4444" fillOpacity={0.08} />
+                ))}
+
+                <Line type="monotone" dataKey="closeA" name={labels[0]} stroke={COLOR_A} strokeWidth={2} dot={false} connectNulls={false} />
+                <Line type="monotone" dataKey="closeB" name={labels[1]} stroke={COLOR_B} strokeWidth={2} dot={false} connectNulls={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs">
+            <div className="bg-white p-4 rounded-xl border border-green-100">
+              <p className="font-bold text-green-700 mb-2">{format(text.bothGood, { count: summary.bothGood.length })}</p>
+              <YearChips years={summary.bothGood} className="bg-green-50 text-green-700" />
+            </div>
+            <div className="bg-white p-4 rounded-xl border border-red-100">
+              <p className="font-bold text-red-700 mb-2">{format(text.bothBad, { count: summary.bothBad.length })}</p>
+              <YearChips years={summary.bothBad} className="bg-red-50 text-red-700" />
+            </div>
+            <div className="bg-white p-4 rounded-xl border border-amber-100">
+              <p className="font-bold text-amber-700 mb-2">{text.divergent}</p>
+              {summary.divergent.length === 0 && <span className="text-gray-400">{t.common.none}</span>}
+              <ul className="space-y-1">
+                {summary.divergent.map(({ year, a, b }) => (
+                  <li key={year} className="flex justify-between gap-2">
+                    <span className="font-mono">{year}</span>
+                    <span>
+                      <span style={{ color: COLOR_A }}>{labels[0]} {a!.close}{goodText(isGoodYear(a!))}</span>
+                      {' / '}
+                      <span style={{ color: COLOR_B }}>{labels[1]} {b!.close}{goodText(isGoodYear(b!))}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ComparisonPanel;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { SavedReading } from '../types';
+import { History, Pencil, Trash2, Check, X, FolderOpen } from 'lucide-react';
+import { format, useI18n } from '../i18n';
+
+interface HistoryPanelProps {
+  readings: SavedReading[];
+  onOpen: (reading: SavedReading) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ readings, onOpen, onRename, onDelete }) => {
+  const { t } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (reading: SavedReading) => {
+    setEditingId(reading.id);
+    setDraftTitle(reading.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  const handleDelete = (reading: SavedReading) => {
+    if (window.confirm(format(t.history.deleteConfirm, { title: reading.title }))) {
+      onDelete(reading.id);
+    }
+  };
+
+  if (readings.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-md bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <div className="flex items-center gap-2 mb-4 text-gray-800 font-bold">
+        <History className="w-4 h-4" />
+        <h3 className="font-serif-sc">{t.history.title}</h3>
+        <span className="text-xs font-normal text-gray-400">({readings.length})</span>
+      </div>
+
+      <ul className="space-y-2 max-h-80 overflow-y-auto custom-scrollbar">
+        {readings.map(reading => (
+          <li key={reading.id} className="border border-gray-100 rounded-lg px-3 py-2 hover:border-indigo-200 transition-colors">
+            {editingId === reading.id ? (
+              <div className="flex items-center gap-2">
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEditing();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm outline-none focus:ring-2 focus:ring-indigo-400"
+                />
+                <button type="button" onClick={commitEditing} className="text-green-600 hover:text-green-800" title={t.common.save}>
+                  <Check className="w-4 h-4" />
+                </button>
+                <button type="button" onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-600" title={t.common.cancel}>
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => onOpen(reading)}
+                  className="flex-1 text-left min-w-0"
+                  title={t.history.open}
+                >
+                  <p className="text-sm font-bold text-gray-800 truncate">{reading.title}</p>
+                  <p className="text-xs text-gray-400 font-mono truncate">
+                    {new Date(reading.createdAt).toLocaleString(t.locale)} · {reading.modelName}
+                    {reading.result.template && ` · ${format(t.templates.used, { name: reading.result.template.name, version: reading.result.template.version })}`}
+                  </p>
+                </button>
+                <button type="button" onClick={() => onOpen(reading)} className="text-indigo-500 hover:text-indigo-700" title={t.history.open}>
+                  <FolderOpen className="w-4 h-4" />
+                </button>
+                <button type="button" onClick={() => startEditing(reading)} className="text-gray-400 hover:text-gray-700" title={t.history.rename}>
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button type="button" onClick={() => handleDelete(reading)} className="text-gray-400 hover:text-red-600" title={t.history.delete}>
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,75 +1,253 @@
-import React from 'react';
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
 import {
   ComposedChart,
   Bar,
+  Line,
+  LineChart,
+  Area,
+  Brush,
+  Cell,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
-  Label
+  ReferenceArea,
+  ReferenceDot,
+  Label,
+  TooltipProps
 } from 'recharts';
-import { KLinePoint } from '../types';
+import { KLinePoint, YearDimension } from '../types';
+import { ZoomIn, ZoomOut, Maximize2, ChevronLeft, ChevronRight, X, CalendarRange } from 'lucide-react';
+import { ChartIndicator, DIMENSION_OPTIONS, INDICATOR_OPTIONS, IndicatorValues, computeIndicators } from '../services/indicatorService';
+import { findCurrentPoint, getCurrentYear } from '../services/outlookService';
+import { TurningPointAnalysis } from '../services/turningPointService';
+import { Translations, format, useI18n } from '../i18n';
 
 interface LifeKLineChartProps {
   data: KLinePoint[];
+  animate?: boolean; // 流式预览时逐根追加，关闭入场动画
+  size?: { width: number; height: number }; // 固定尺寸的绘图区，打印时使用；不传则随容器自适应
+  showToolbar?: boolean; // 显示技术指标开关
+  currentYear?: number;  // "今年" 标记所在的公历年，默认取当前日期
+  turningPoints?: TurningPointAnalysis; // 关键转折年份，传入时在图上标注
+  onViewMonthly?: (point: KLinePoint) => void; // 固定面板中的 "查看流月"
+  highlightYears?: number[]; // 追问回答中提到的流年 (公历)，背景高亮
 }
 
-const CustomTooltip = ({ active, payload }: any) => {
-  if (active && payload && payload.length) {
-    const data = payload[0].payload as KLinePoint;
-    const isUp = data.close >= data.open;
-    return (
-      <div className="bg-white/95 backdrop-blur-sm p-5 rounded-xl shadow-2xl border border-gray-200 z-50 w-[320px] md:w-[400px]">
-        {/* Header */}
-        <div className="flex justify-between items-start mb-3 border-b border-gray-100 pb-2">
-          <div>
-            <p className="text-xl font-bold text-gray-800 font-serif-sc">
-              {data.year} {data.ganZhi}年 <span className="text-base text-gray-500 font-sans">({data.age}岁)</span>
-            </p>
-            <p className="text-sm text-indigo-600 font-medium mt-1">
-              大运：{data.daYun || '未知'}
-            </p>
-          </div>
-          <div className={`text-base font-bold px-2 py-1 rounded ${isUp ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
-            {isUp ? '吉 ▲' : '凶 ▼'}
-          </div>
+type ChartDatum = KLinePoint & IndicatorValues & { bodyRange: number[]; bollRange?: number[] };
+
+const CHART_MARGIN = { top: 20, right: 10, left: 0, bottom: 20 };
+const Y_AXIS_WIDTH = 60;
+// 可见年份不超过这个数时，横轴逐年标注年龄与流年干支
+const DETAILED_TICK_LIMIT = 25;
+const MIN_VISIBLE_YEARS = 5;
+const CHART_HEIGHT = 600;
+const CHANGE_PANEL_HEIGHT = 120;
+const NAVIGATOR_HEIGHT = 56;
+
+type VisibleRange = [number, number]; // 数据下标，含两端
+
+// recharts 点击事件中用到的部分：鼠标所在年份的数据点
+type ChartClickState = { activePayload?: { payload: KLinePoint }[] } | null;
+
+// 缩放状态对应的可见区间；流式预览时数据会变短或变长，区间按当前数据截断
+const resolveRange = (zoom: VisibleRange | null, lastIndex: number): VisibleRange =>
+  zoom ? [Math.min(zoom[0], lastIndex), Math.min(zoom[1], lastIndex)] : [0, lastIndex];
+
+// 区间限制在数据范围内且不少于 MIN_VISIBLE_YEARS 年，覆盖全部时返回 null
+const clampRange = (from: number, to: number, lastIndex: number): VisibleRange | null => {
+  const span = Math.max(Math.min(to - from, lastIndex), MIN_VISIBLE_YEARS - 1);
+  const clampedFrom = Math.max(0, Math.min(from, lastIndex - span));
+  const next: VisibleRange = [clampedFrom, clampedFrom + span];
+  return next[0] === 0 && next[1] >= lastIndex ? null : next;
+};
+
+// 以区间中心缩放
+const scaleRange = ([start, end]: VisibleRange, factor: number, lastIndex: number): VisibleRange | null => {
+  const center = (start + end) / 2;
+  const half = ((end - start) * factor) / 2;
+  return clampRange(Math.round(center - half), Math.round(center + half), lastIndex);
+};
+
+// recharts 克隆刻度元素时传入坐标与刻度值 (年龄)
+interface YearTickProps {
+  x?: number;
+  y?: number;
+  payload?: { value: number };
+  points: ChartDatum[];
+}
+
+// 逐年刻度：年龄 + 流年干支
+const YearTick = ({ x, y, payload, points }: YearTickProps) => {
+  if (!payload) return null;
+  const point = points.find(p => p.age === payload.value);
+  return (
+    <g transform={`translate(${x},${y})`}>
+      <text textAnchor="middle" fontSize={10} fill="#6b7280" dy={10}>{payload.value}</text>
+      {point?.ganZhi && (
+        <text textAnchor="middle" fontSize={9} fill="#9ca3af" dy={22} className="font-serif-sc">{point.ganZhi}</text>
+      )}
+    </g>
+  );
+};
+
+// recharts 克隆标签元素时传入参考线的位置与 Label 上的 value、className
+interface DaYunLabelProps {
+  viewBox?: { x: number; y: number };
+  value?: string;
+  className?: string;
+  onSelect?: () => void;
+}
+
+// 大运标签，可点击放大到该步大运
+const DaYunLabel = ({ viewBox, value, className, onSelect }: DaYunLabelProps) => {
+  if (!viewBox) return null;
+  return (
+    <text
+      x={viewBox.x}
+      y={viewBox.y - 6}
+      textAnchor="middle"
+      fill="#6366f1"
+      fontSize={10}
+      fontWeight="bold"
+      className={className}
+      style={{ cursor: onSelect ? 'pointer' : undefined }}
+      onClick={onSelect}
+    >
+      {value}
+    </text>
+  );
+};
+
+const indicatorColor = (id: ChartIndicator): string =>
+  INDICATOR_OPTIONS.find(option => option.id === id)?.color ?? '#6b7280';
+
+// 提示框中展示的指标数值
+const IndicatorReadout = ({ data, indicators }: { data: ChartDatum; indicators: ChartIndicator[] }) => {
+  const { t } = useI18n();
+  const rows: { label: string; value?: number; color: string; signed?: boolean }[] = [];
+  indicators.forEach(id => {
+    const color = indicatorColor(id);
+    if (id === 'boll') {
+      rows.push({ label: t.chart.bollUpper, value: data.bollUpper, color });
+      rows.push({ label: t.chart.bollMiddle, value: data.bollMiddle, color });
+      rows.push({ label: t.chart.bollLower, value: data.bollLower, color });
+    } else {
+      rows.push({ label: t.chart.indicators[id], value: data[id], color, signed: id === 'scoreChange' });
+    }
+  });
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-3 gap-x-3 gap-y-1 text-xs mb-4 border border-gray-100 rounded p-2">
+      {rows.map(row => (
+        <div key={row.label} className="flex justify-between gap-1">
+          <span style={{ color: row.color }}>{row.label}</span>
+          <span className="font-mono text-gray-700">
+            {row.value === undefined ? '-' : row.signed && row.value > 0 ? `+${row.value}` : row.value}
+          </span>
         </div>
+      ))}
+    </div>
+  );
+};
 
-        {/* Data Grid */}
-        <div className="grid grid-cols-4 gap-2 text-xs text-gray-500 mb-4 bg-gray-50 p-2 rounded">
-          <div className="text-center">
-            <span className="block scale-90">开盘</span>
-            <span className="font-mono text-gray-700 font-bold">{data.open}</span>
-          </div>
-          <div className="text-center">
-            <span className="block scale-90">收盘</span>
-            <span className="font-mono text-gray-700 font-bold">{data.close}</span>
-          </div>
-          <div className="text-center">
-            <span className="block scale-90">最高</span>
-            <span className="font-mono text-gray-700 font-bold">{data.high}</span>
-          </div>
-          <div className="text-center">
-            <span className="block scale-90">最低</span>
-            <span className="font-mono text-gray-700 font-bold">{data.low}</span>
-          </div>
+// 单年详情：提示框与固定面板共用，提示框中详批限高滚动，面板中完整展示
+const YearDetail = ({ data, indicators, fullReason = false }: { data: ChartDatum; indicators: ChartIndicator[]; fullReason?: boolean }) => {
+  const { t } = useI18n();
+  const isUp = data.close >= data.open;
+  return (
+    <>
+      {/* Header */}
+      <div className="flex justify-between items-start mb-3 border-b border-gray-100 pb-2">
+        <div>
+          <p className="text-xl font-bold text-gray-800 font-serif-sc">
+            {format(t.common.yearGanZhi, { year: data.year, ganZhi: data.ganZhi })}{' '}
+            <span className="text-base text-gray-500 font-sans">({format(t.common.age, { age: data.age })})</span>
+          </p>
+          <p className="text-sm text-indigo-600 font-medium mt-1">
+            {format(t.chart.daYun, { daYun: data.daYun || t.common.unknown })}
+            {data.isFilled && <span className="ml-2 text-xs text-amber-600">{t.common.filled}</span>}
+          </p>
+        </div>
+        <div className={`text-base font-bold px-2 py-1 rounded ${isUp ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+          {isUp ? t.common.goodUp : t.common.badDown}
         </div>
+      </div>
 
-        {/* Detailed Reason */}
-        <div className="text-sm text-gray-700 leading-relaxed text-justify max-h-[200px] overflow-y-auto custom-scrollbar">
-          {data.reason}
+      {/* Data Grid */}
+      <div className="grid grid-cols-4 gap-2 text-xs text-gray-500 mb-4 bg-gray-50 p-2 rounded">
+        <div className="text-center">
+          <span className="block scale-90">{t.chart.open}</span>
+          <span className="font-mono text-gray-700 font-bold">{data.open}</span>
+        </div>
+        <div className="text-center">
+          <span className="block scale-90">{t.chart.close}</span>
+          <span className="font-mono text-gray-700 font-bold">{data.close}</span>
+        </div>
+        <div className="text-center">
+          <span className="block scale-90">{t.chart.high}</span>
+          <span className="font-mono text-gray-700 font-bold">{data.high}</span>
+        </div>
+        <div className="text-center">
+          <span className="block scale-90">{t.chart.low}</span>
+          <span className="font-mono text-gray-700 font-bold">{data.low}</span>
         </div>
       </div>
+
+      {data.dimensions && (
+        <div className="grid grid-cols-4 gap-2 text-xs mb-4">
+          {DIMENSION_OPTIONS.map(option => (
+            <div key={option.id} className="text-center">
+              <span className="block scale-90" style={{ color: option.color }}>{t.dimensions[option.id]}</span>
+              <span className="font-mono text-gray-700 font-bold">{data.dimensions?.[option.id] ?? '-'}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <IndicatorReadout data={data} indicators={indicators} />
+
+      {/* Detailed Reason */}
+      <div className={`text-sm text-gray-700 leading-relaxed text-justify ${fullReason ? 'whitespace-pre-wrap' : 'max-h-[200px] overflow-y-auto custom-scrollbar'}`}>
+        {data.reason}
+      </div>
+    </>
+  );
+};
+
+type CustomTooltipProps = TooltipProps<number, string> & {
+  indicators?: ChartIndicator[];
+};
+
+const CustomTooltip = ({ active, payload, indicators = [] }: CustomTooltipProps) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-white/95 backdrop-blur-sm p-5 rounded-xl shadow-2xl border border-gray-200 z-50 w-[320px] md:w-[400px]">
+        <YearDetail data={payload[0].payload as ChartDatum} indicators={indicators} />
+      </div>
     );
   }
   return null;
 };
 
-// CandleShape with cleaner wicks
-const CandleShape = (props: any) => {
-  const { x, y, width, height, payload, yAxis } = props;
+// recharts 克隆柱形元素时传入柱体位置、数据点与纵轴；流年与流月的数据点都带开收高低
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: { age?: number; open: number; close: number; high: number; low: number };
+  yAxis?: { scale?: (value: number) => number };
+  selectedAge?: number; // 固定显示的流年，加粗描边
+}
+
+// CandleShape with cleaner wicks，流月K线也复用
+export const CandleShape = ({ x = 0, y = 0, width = 0, height = 0, payload, yAxis, selectedAge }: CandleShapeProps) => {
+  if (!payload) return null;
+  const isSelected = selectedAge !== undefined && payload.age === selectedAge;
 
   const isUp = payload.close >= payload.open;
   const color = isUp ? '#22c55e' : '#ef4444'; // Green Up, Red Down
@@ -102,18 +280,100 @@ const CandleShape = (props: any) => {
         width={width} 
         height={renderHeight} 
         fill={color} 
-        stroke={strokeColor}
-        strokeWidth={0.5}
+        stroke={isSelected ? '#312e81' : strokeColor}
+        strokeWidth={isSelected ? 1.5 : 0.5}
       />
     </g>
   );
 };
 
-const LifeKLineChart: React.FC<LifeKLineChartProps> = ({ data }) => {
-  const transformedData = data.map(d => ({
-    ...d,
-    bodyRange: [Math.min(d.open, d.close), Math.max(d.open, d.close)],
-  }));
+// 转折年份标注：同一年可能既是高点又是急跌，文字合并到一个点上
+interface TurningMarker {
+  age: number;
+  y: number;
+  text: string;
+  color: string;
+  position: 'top' | 'bottom';
+}
+
+const buildTurningMarkers = (analysis: TurningPointAnalysis, t: Translations): TurningMarker[] => {
+  const markers = new Map<string, TurningMarker>();
+  const add = (age: number, y: number, text: string, color: string, position: TurningMarker['position']) => {
+    const key = `${age}-${position}`;
+    const existing = markers.get(key);
+    if (existing) existing.text += ` ${text}`;
+    else markers.set(key, { age, y, text, color, position });
+  };
+  analysis.peaks.forEach(({ point }) => add(point.age, point.high, t.turning.peakMarker, '#15803d', 'top'));
+  analysis.troughs.forEach(({ point }) => add(point.age, point.low, t.turning.troughMarker, '#b91c1c', 'bottom'));
+  analysis.drops.forEach(({ point, value }) => add(point.age, point.low, format(t.turning.dropMarker, { value }), '#b91c1c', 'bottom'));
+  return Array.from(markers.values());
+};
+
+// 分数变化副图的提示
+const ChangeTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+  const { t } = useI18n();
+  if (!active || !payload || !payload.length) return null;
+  const data = payload[0].payload as ChartDatum;
+  if (data.scoreChange === undefined) return null;
+  return (
+    <div className="bg-white/95 px-2 py-1 rounded shadow border border-gray-200 text-xs font-mono">
+      {format(t.chart.scoreChange, {
+        year: data.year,
+        value: data.scoreChange > 0 ? `+${data.scoreChange}` : data.scoreChange,
+      })}
+    </div>
+  );
+};
+
+const LifeKLineChart: React.FC<LifeKLineChartProps> = ({ data, animate = true, size, showToolbar = false, currentYear = getCurrentYear(), turningPoints, onViewMonthly, highlightYears = [] }) => {
+  const { t } = useI18n();
+  // 主图与变化副图联动；每个实例单独一组，打印用的隐藏图表不会收到屏幕上图表的悬停与缩放
+  const syncId = useId();
+  const [indicators, setIndicators] = useState<ChartIndicator[]>([]);
+  const [showTurningPoints, setShowTurningPoints] = useState(true);
+  // 作为独立折线绘制的流年分项
+  const [dimensions, setDimensions] = useState<YearDimension[]>([]);
+  // 缩放后的可见区间，null 表示显示全部
+  const [zoom, setZoom] = useState<VisibleRange | null>(null);
+  const plotRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; range: VisibleRange } | null>(null);
+  // 拖动平移过的那次松手不算点击
+  const dragMoved = useRef(false);
+  // 点击K线固定显示的年份
+  const [selectedAge, setSelectedAge] = useState<number | null>(null);
+  const isOn = (id: ChartIndicator) => indicators.includes(id);
+  const toggleIndicator = (id: ChartIndicator) =>
+    setIndicators(prev => (prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]));
+  const toggleDimension = (id: YearDimension) =>
+    setDimensions(prev => (prev.includes(id) ? prev.filter(d => d !== id) : [...prev, id]));
+  const hasDimensions = data.some(d => d.dimensions);
+
+  const transformedData = useMemo<ChartDatum[]>(() => {
+    const values = computeIndicators(data);
+    return data.map((d, i) => ({
+      ...d,
+      ...values[i],
+      bodyRange: [Math.min(d.open, d.close), Math.max(d.open, d.close)],
+      bollRange: values[i].bollLower !== undefined ? [values[i].bollLower!, values[i].bollUpper!] : undefined,
+    }));
+  }, [data]);
+
+  // 触控板捏合 / Ctrl + 滚轮缩放，普通滚轮留给页面滚动。
+  // React 的 wheel 监听是 passive 的，preventDefault 无效，这里挂原生监听器，避免浏览器整页跟着缩放
+  const lastDataIndex = data.length - 1;
+  useEffect(() => {
+    const plot = plotRef.current;
+    if (!plot) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const factor = e.deltaY > 0 ? 1.25 : 0.8;
+      setZoom(prev => scaleRange(resolveRange(prev, lastDataIndex), factor, lastDataIndex));
+    };
+    plot.addEventListener('wheel', handleWheel, { passive: false });
+    return () => plot.removeEventListener('wheel', handleWheel);
+  }, [size, lastDataIndex]);
 
   // Identify Da Yun change points to draw reference lines
   const daYunChanges = data.filter((d, i) => {
@@ -122,73 +382,464 @@ const LifeKLineChart: React.FC<LifeKLineChartProps> = ({ data }) => {
   });
 
   if (!data || data.length === 0) {
-    return <div className="h-[500px] flex items-center justify-center text-gray-400">无数据</div>;
+    return <div className="h-[500px] flex items-center justify-center text-gray-400">{t.common.noData}</div>;
   }
 
+  const lastIndex = transformedData.length - 1;
+  const [start, end] = resolveRange(size ? null : zoom, lastIndex);
+  const visibleData = transformedData.slice(start, end + 1);
+  const visibleCount = visibleData.length;
+  const isZoomed = start > 0 || end < lastIndex;
+  const detailedTicks = visibleCount <= DETAILED_TICK_LIMIT;
+
+  const applyZoom = (from: number, to: number) => setZoom(clampRange(from, to, lastIndex));
+
+  const zoomBy = (factor: number) => setZoom(scaleRange([start, end], factor, lastIndex));
+
+  const zoomToDaYun = (daYun: string) => {
+    const from = transformedData.findIndex(d => d.daYun === daYun);
+    if (from < 0) return;
+    let to = from;
+    while (to < lastIndex && transformedData[to + 1].daYun === daYun) to++;
+    applyZoom(from, to);
+  };
+
+  // 拖动平移：按像素换算成年份数
+  const handlePointerDown = (e: React.PointerEvent) => {
+    dragMoved.current = false;
+    if (!isZoomed || e.button !== 0) return;
+    dragRef.current = { x: e.clientX, range: [start, end] };
+  };
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const width = plotRef.current?.clientWidth;
+    if (!drag || !width) return;
+    const yearWidth = (width - Y_AXIS_WIDTH - CHART_MARGIN.right) / visibleCount;
+    const shift = Math.round((drag.x - e.clientX) / yearWidth);
+    if (shift !== 0 && drag.range[0] + shift !== start) {
+      dragMoved.current = true;
+      applyZoom(drag.range[0] + shift, drag.range[1] + shift);
+    }
+  };
+  const endDrag = () => { dragRef.current = null; };
+
+  const currentPoint = findCurrentPoint(visibleData, currentYear);
+  const firstAge = visibleData[0].age;
+  const lastAge = visibleData[visibleCount - 1].age;
+  const isVisibleAge = (age: number) => age >= firstAge && age <= lastAge;
+  const turningMarkers = turningPoints && showTurningPoints
+    ? buildTurningMarkers(turningPoints, t).filter(marker => isVisibleAge(marker.age))
+    : [];
+  // 牛熊阶段按可见区间截断
+  const visiblePhases = turningPoints && showTurningPoints
+    ? turningPoints.phases
+        .map(phase => ({ ...phase, x1: Math.max(phase.from.age, firstAge), x2: Math.min(phase.to.age, lastAge) }))
+        .filter(phase => phase.x1 <= phase.x2)
+    : [];
+  const highlighted = visibleData.filter(d => highlightYears.includes(d.year));
+  const showChangePanel = isOn('scoreChange');
+  const canZoom = showToolbar && !size;
+
+  const selectedIndex = selectedAge === null ? -1 : transformedData.findIndex(d => d.age === selectedAge);
+  const selected = selectedIndex >= 0 ? transformedData[selectedIndex] : null;
+
+  // 选中年份移出可见区间时，平移区间跟上
+  const selectIndex = (index: number) => {
+    const next = Math.max(0, Math.min(index, lastIndex));
+    setSelectedAge(transformedData[next].age);
+    const span = end - start;
+    if (next < start) applyZoom(next, next + span);
+    else if (next > end) applyZoom(next - span, next);
+  };
+
+  const handleChartClick = (state: ChartClickState) => {
+    const point = state?.activePayload?.[0]?.payload;
+    if (!canZoom || dragMoved.current || !point) return;
+    setSelectedAge(prev => (prev === point.age ? null : point.age));
+    plotRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!selected) return;
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      selectIndex(selectedIndex + (e.key === 'ArrowLeft' ? -1 : 1));
+    } else if (e.key === 'Escape') {
+      setSelectedAge(null);
+      // 面板随之关闭，焦点回到图上
+      plotRef.current?.focus();
+    }
+  };
+
+  const chart = (
+    <ComposedChart
+      data={visibleData}
+      width={size?.width}
+      height={size?.height}
+      margin={detailedTicks ? { ...CHART_MARGIN, bottom: 32 } : CHART_MARGIN}
+      syncId={syncId}
+      onClick={handleChartClick}
+    >
+      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+
+      {visiblePhases.map(phase => (
+        <ReferenceArea
+          key={`phase-${phase.from.age}`}
+          x1={phase.x1}
+          x2={phase.x2}
+          fill={phase.kind === 'bull' ? '#22c55e' : '#ef4444'}
+          fillOpacity={0.06}
+          ifOverflow="hidden"
+        >
+          <Label
+            value={phase.kind === 'bull' ? t.turning.bull : t.turning.bear}
+            position="insideBottom"
+            fill={phase.kind === 'bull' ? '#15803d' : '#b91c1c'}
+            fontSize={10}
+          />
+        </ReferenceArea>
+      ))}
+
+      {highlighted.map(d => (
+        <ReferenceArea key={`highlight-${d.age}`} x1={d.age} x2={d.age} fill="#f59e0b" fillOpacity={0.18} ifOverflow="hidden" />
+      ))}
+
+      {selected && (
+        <ReferenceArea x1={selected.age} x2={selected.age} fill="#6366f1" fillOpacity={0.12} ifOverflow="hidden" />
+      )}
+      
+      <XAxis 
+        dataKey="age" 
+        tick={detailedTicks ? <YearTick points={visibleData} /> : {fontSize: 10, fill: '#6b7280'}}
+        interval={detailedTicks ? 0 : Math.max(0, Math.ceil(visibleCount / 10) - 1)} 
+        axisLine={{ stroke: '#e5e7eb' }}
+        tickLine={false}
+        label={{ value: t.chart.ageAxis, position: 'insideBottomRight', offset: -5, fontSize: 10, fill: '#9ca3af' }} 
+      />
+      
+      <YAxis 
+        domain={[0, 100]} 
+        width={Y_AXIS_WIDTH}
+        tick={{fontSize: 10, fill: '#6b7280'}}
+        axisLine={false}
+        tickLine={false}
+        label={{ value: t.chart.scoreAxis, angle: -90, position: 'insideLeft', fontSize: 10, fill: '#9ca3af' }} 
+      />
+      
+      <Tooltip content={<CustomTooltip indicators={indicators} />} cursor={{ stroke: '#9ca3af', strokeWidth: 1, strokeDasharray: '4 4' }} />
+      
+      {/* Da Yun Reference Lines */}
+      {daYunChanges.filter(point => visibleData.some(d => d.age === point.age)).map((point, index) => (
+         <ReferenceLine 
+           key={`dayun-${index}`} 
+           x={point.age} 
+           stroke="#cbd5e1" 
+           strokeDasharray="3 3" 
+           strokeWidth={1}
+         >
+           <Label 
+             value={point.daYun} 
+             position="top" 
+             className="hidden md:block"
+             content={<DaYunLabel onSelect={canZoom && point.daYun ? () => zoomToDaYun(point.daYun!) : undefined} />}
+           />
+         </ReferenceLine>
+      ))}
+
+      {/* 布林带画在K线下层 */}
+      {isOn('boll') && (
+        <Area
+          dataKey="bollRange"
+          stroke="none"
+          fill={indicatorColor('boll')}
+          fillOpacity={0.08}
+          isAnimationActive={false}
+          activeDot={false}
+        />
+      )}
+
+      {currentPoint && (
+        <ReferenceLine x={currentPoint.age} stroke="#f97316" strokeWidth={1.5}>
+          <Label value={t.chart.thisYear} position="insideTopRight" fill="#ea580c" fontSize={11} fontWeight="bold" />
+        </ReferenceLine>
+      )}
+
+      <Bar 
+        dataKey="bodyRange" 
+        shape={<CandleShape selectedAge={selected?.age} />} 
+        isAnimationActive={animate}
+        animationDuration={1500}
+      />
+
+      {isOn('boll') && (['bollUpper', 'bollMiddle', 'bollLower'] as const).map(key => (
+        <Line
+          key={key}
+          dataKey={key}
+          stroke={indicatorColor('boll')}
+          strokeWidth={1}
+          strokeDasharray={key === 'bollMiddle' ? undefined : '4 2'}
+          dot={false}
+          activeDot={false}
+          isAnimationActive={false}
+        />
+      ))}
+      {(['ma5', 'ma10', 'ma20'] as const).filter(isOn).map(key => (
+        <Line
+          key={key}
+          dataKey={key}
+          stroke={indicatorColor(key)}
+          strokeWidth={1.5}
+          dot={false}
+          activeDot={false}
+          isAnimationActive={false}
+        />
+      ))}
+      {isOn('daYunAvg') && (
+        <Line
+          type="stepAfter"
+          dataKey="daYunAvg"
+          stroke={indicatorColor('daYunAvg')}
+          strokeWidth={2}
+          dot={false}
+          activeDot={false}
+          isAnimationActive={false}
+        />
+      )}
+
+      {hasDimensions && DIMENSION_OPTIONS.filter(option => dimensions.includes(option.id)).map(option => (
+        <Line
+          key={option.id}
+          dataKey={`dimensions.${option.id}`}
+          name={t.dimensions[option.id]}
+          stroke={option.color}
+          strokeWidth={1.5}
+          dot={false}
+          activeDot={{ r: 3 }}
+          isAnimationActive={false}
+        />
+      ))}
+
+      {turningMarkers.map(marker => (
+        <ReferenceDot
+          key={`turning-${marker.age}-${marker.position}`}
+          x={marker.age}
+          y={marker.y}
+          r={3}
+          fill={marker.color}
+          stroke="#fff"
+        >
+          <Label value={marker.text} position={marker.position} offset={8} fill={marker.color} fontSize={10} fontWeight="bold" />
+        </ReferenceDot>
+      ))}
+      
+    </ComposedChart>
+  );
+
+  // 分数逐年变化，类似成交量副图
+  const changeChart = (
+    <ComposedChart
+      data={visibleData}
+      width={size?.width}
+      height={size ? CHANGE_PANEL_HEIGHT : undefined}
+      margin={{ ...CHART_MARGIN, top: 0, bottom: 0 }}
+      syncId={syncId}
+    >
+      <XAxis dataKey="age" hide />
+      <YAxis width={Y_AXIS_WIDTH} tick={{ fontSize: 10, fill: '#6b7280' }} axisLine={false} tickLine={false} />
+      <ReferenceLine y={0} stroke="#e5e7eb" />
+      <Tooltip content={<ChangeTooltip />} cursor={{ fill: '#f3f4f6' }} />
+      <Bar dataKey="scoreChange" isAnimationActive={false}>
+        {visibleData.map(d => (
+          <Cell key={d.age} fill={(d.scoreChange ?? 0) >= 0 ? '#86efac' : '#fca5a5'} />
+        ))}
+      </Bar>
+    </ComposedChart>
+  );
+
   return (
-    <div className="w-full h-[600px] bg-white p-2 md:p-6 rounded-xl border border-gray-200 shadow-sm relative">
-      <div className="mb-6 flex justify-between items-center px-2">
-        <h3 className="text-xl font-bold text-gray-800 font-serif-sc">人生流年大运K线图</h3>
-        <div className="flex gap-4 text-xs font-medium">
-           <span className="flex items-center text-green-700 bg-green-50 px-2 py-1 rounded"><div className="w-2 h-2 bg-green-500 mr-2 rounded-full"></div> 吉运 (涨)</span>
-           <span className="flex items-center text-red-700 bg-red-50 px-2 py-1 rounded"><div className="w-2 h-2 bg-red-500 mr-2 rounded-full"></div> 凶运 (跌)</span>
+    <>
+      <div
+        className="w-full bg-white p-2 md:p-6 rounded-xl border border-gray-200 shadow-sm relative flex flex-col"
+        style={size ? undefined : { height: CHART_HEIGHT + (showChangePanel ? CHANGE_PANEL_HEIGHT : 0) + (canZoom ? NAVIGATOR_HEIGHT : 0) }}
+      >
+        <div className="mb-6 flex justify-between items-center px-2">
+          <h3 className="text-xl font-bold text-gray-800 font-serif-sc">{t.chart.title}</h3>
+          <div className="flex gap-4 text-xs font-medium">
+             <span className="flex items-center text-green-700 bg-green-50 px-2 py-1 rounded"><div className="w-2 h-2 bg-green-500 mr-2 rounded-full"></div> {t.chart.up}</span>
+             <span className="flex items-center text-red-700 bg-red-50 px-2 py-1 rounded"><div className="w-2 h-2 bg-red-500 mr-2 rounded-full"></div> {t.chart.down}</span>
+          </div>
         </div>
-      </div>
+
+        {showToolbar && (
+          <div className="flex flex-wrap gap-2 px-2 -mt-3 mb-3 text-xs">
+            {INDICATOR_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => toggleIndicator(option.id)}
+                className={`px-2 py-1 rounded border font-medium transition-colors ${
+                  isOn(option.id) ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-600 border-gray-200 hover:border-gray-400'
+                }`}
+              >
+                <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: option.color }} />
+                {t.chart.indicators[option.id]}
+              </button>
+            ))}
+            {turningPoints && (
+              <button
+                type="button"
+                onClick={() => setShowTurningPoints(prev => !prev)}
+                className={`px-2 py-1 rounded border font-medium transition-colors ${
+                  showTurningPoints ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-600 border-gray-200 hover:border-gray-400'
+                }`}
+              >
+                {t.turning.toggle}
+              </button>
+            )}
+            {hasDimensions && (
+              <div className="flex items-center gap-2">
+                <span className="text-gray-400">{t.chart.dimensions}</span>
+                {DIMENSION_OPTIONS.map(option => {
+                  const active = dimensions.includes(option.id);
+                  return (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => toggleDimension(option.id)}
+                      className="px-2 py-1 rounded border font-medium transition-colors"
+                      style={active
+                        ? { backgroundColor: option.color, borderColor: option.color, color: '#fff' }
+                        : { borderColor: '#e5e7eb', color: option.color }}
+                    >
+                      {t.dimensions[option.id]}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            {canZoom && (
+              <div className="flex items-center gap-1 ml-auto text-gray-600">
+                <span className="hidden md:inline text-gray-400 mr-1">
+                  {isZoomed ? format(t.chart.zoomedRange, { from: firstAge, to: lastAge }) : t.chart.zoomHint}
+                </span>
+                <button type="button" onClick={() => zoomBy(0.5)} className="p-1 rounded border border-gray-200 hover:border-gray-400" title={t.chart.zoomIn}>
+                  <ZoomIn className="w-3.5 h-3.5" />
+                </button>
+                <button type="button" onClick={() => zoomBy(2)} disabled={!isZoomed} className="p-1 rounded border border-gray-200 hover:border-gray-400 disabled:opacity-40" title={t.chart.zoomOut}>
+                  <ZoomOut className="w-3.5 h-3.5" />
+                </button>
+                <button type="button" onClick={() => setZoom(null)} disabled={!isZoomed} className="p-1 rounded border border-gray-200 hover:border-gray-400 disabled:opacity-40" title={t.chart.showAll}>
+                  <Maximize2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+          </div>
+        )}
       
-      <ResponsiveContainer width="100%" height="90%">
-        <ComposedChart data={transformedData} margin={{ top: 20, right: 10, left: 0, bottom: 20 }}>
-          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
-          
-          <XAxis 
-            dataKey="age" 
-            tick={{fontSize: 10, fill: '#6b7280'}}
-            interval={9} 
-            axisLine={{ stroke: '#e5e7eb' }}
-            tickLine={false}
-            label={{ value: '年龄', position: 'insideBottomRight', offset: -5, fontSize: 10, fill: '#9ca3af' }} 
-          />
-          
-          <YAxis 
-            domain={[0, 100]} 
-            tick={{fontSize: 10, fill: '#6b7280'}}
-            axisLine={false}
-            tickLine={false}
-            label={{ value: '运势分', angle: -90, position: 'insideLeft', fontSize: 10, fill: '#9ca3af' }} 
-          />
-          
-          <Tooltip content={<CustomTooltip />} cursor={{ stroke: '#9ca3af', strokeWidth: 1, strokeDasharray: '4 4' }} />
-          
-          {/* Da Yun Reference Lines */}
-          {daYunChanges.map((point, index) => (
-             <ReferenceLine 
-               key={`dayun-${index}`} 
-               x={point.age} 
-               stroke="#cbd5e1" 
-               strokeDasharray="3 3" 
-               strokeWidth={1}
-             >
-               <Label 
-                 value={point.daYun} 
-                 position="top" 
-                 fill="#6366f1" 
-                 fontSize={10} 
-                 fontWeight="bold"
-                 className="hidden md:block"
-               />
-             </ReferenceLine>
-          ))}
+        {size ? chart : (
+          <div
+            ref={plotRef}
+            tabIndex={canZoom ? 0 : undefined}
+            onKeyDown={handleKeyDown}
+            className={`flex-1 min-h-0 outline-none focus-visible:ring-2 focus-visible:ring-indigo-300 rounded ${isZoomed ? 'cursor-grab active:cursor-grabbing touch-pan-y' : ''}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerLeave={endDrag}
+            onPointerCancel={endDrag}
+          >
+            <ResponsiveContainer width="100%" height="100%">
+              {chart}
+            </ResponsiveContainer>
+          </div>
+        )}
 
-          <Bar 
-            dataKey="bodyRange" 
-            shape={<CandleShape />} 
-            isAnimationActive={true}
-            animationDuration={1500}
-          />
-          
-        </ComposedChart>
-      </ResponsiveContainer>
-    </div>
+        {showChangePanel && (size ? changeChart : (
+          <div style={{ height: CHANGE_PANEL_HEIGHT }}>
+            <ResponsiveContainer width="100%" height="100%">
+              {changeChart}
+            </ResponsiveContainer>
+          </div>
+        ))}
+
+        {/* 全程缩略图，拖动两端选择区间 */}
+        {canZoom && (
+          <div style={{ height: NAVIGATOR_HEIGHT }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                data={transformedData}
+                margin={{ top: 8, right: CHART_MARGIN.right, left: CHART_MARGIN.left + Y_AXIS_WIDTH, bottom: 0 }}
+              >
+                <Brush
+                  dataKey="age"
+                  height={NAVIGATOR_HEIGHT - 8}
+                  startIndex={start}
+                  endIndex={end}
+                  travellerWidth={8}
+                  stroke="#a5b4fc"
+                  onChange={({ startIndex, endIndex }) => {
+                    if (startIndex !== undefined && endIndex !== undefined) applyZoom(startIndex, endIndex);
+                  }}
+                >
+                  <LineChart data={transformedData}>
+                    <Line dataKey="close" stroke="#9ca3af" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </Brush>
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      {/* 点击K线后固定显示的流年详批，左右方向键切换年份；焦点在面板按钮上时同样可用 */}
+      {selected && (
+        <div onKeyDown={handleKeyDown} className="mt-4 bg-white p-5 rounded-xl border border-indigo-100 shadow-sm animate-fade-in">
+          <div className="flex items-center justify-between mb-3 text-xs text-gray-500">
+            <span>{t.chart.pinnedHint}</span>
+            <div className="flex items-center gap-1">
+              {onViewMonthly && (
+                <button
+                  type="button"
+                  onClick={() => onViewMonthly(selected)}
+                  className="flex items-center gap-1 px-2 py-1 mr-1 rounded border border-indigo-200 text-indigo-700 hover:bg-indigo-50 font-medium"
+                >
+                  <CalendarRange className="w-3.5 h-3.5" />
+                  {t.chart.viewMonthly}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => selectIndex(selectedIndex - 1)}
+                disabled={selectedIndex <= 0}
+                className="p-1 rounded border border-gray-200 hover:border-gray-400 disabled:opacity-40"
+                title={t.chart.prevYear}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => selectIndex(selectedIndex + 1)}
+                disabled={selectedIndex >= lastIndex}
+                className="p-1 rounded border border-gray-200 hover:border-gray-400 disabled:opacity-40"
+                title={t.chart.nextYear}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelectedAge(null)}
+                className="p-1 rounded text-gray-400 hover:text-gray-700"
+                title={t.common.close}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          <YearDetail data={selected} indicators={indicators} fullReason />
+        </div>
+      )}
+    </>
   );
 };
 
-export default LifeKLineChart;
\ No newline at end of file
+export default LifeKLineChart;
@@ -0,0 +1,137 @@
+import React from 'react';
+import {
+  ComposedChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  TooltipProps,
+} from 'recharts';
+import { KLinePoint, MonthlyPoint, MonthlyReading } from '../types';
+import { CandleShape } from './LifeKLineChart';
+import { format, useI18n } from '../i18n';
+import { CalendarRange, Loader2, RefreshCw, X } from 'lucide-react';
+
+interface MonthlyPanelProps {
+  point: KLinePoint;
+  monthly: MonthlyReading | null;
+  loading: boolean;
+  status: string | null; // 请求进度提示
+  error: string | null;
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+const MonthlyTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+  const { t } = useI18n();
+  if (!active || !payload || !payload.length) return null;
+  const data = payload[0].payload as MonthlyPoint;
+  const isUp = data.close >= data.open;
+  return (
+    <div className="bg-white/95 backdrop-blur-sm p-4 rounded-xl shadow-2xl border border-gray-200 w-[280px]">
+      <div className="flex justify-between items-start mb-2">
+        <p className="font-bold text-gray-800 font-serif-sc">
+          {format(t.monthly.month, { ganZhi: data.ganZhi })}{' '}
+          <span className="text-xs font-normal text-gray-500 font-sans">{format(t.monthly.startDate, { date: data.startDate })}</span>
+        </p>
+        <span className={`text-xs font-bold px-1.5 py-0.5 rounded ${isUp ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+          {isUp ? t.common.goodUp : t.common.badDown}
+        </span>
+      </div>
+      <p className="text-xs font-mono text-gray-500 mb-2">
+        {format(t.monthly.ohlc, { open: data.open, close: data.close, high: data.high, low: data.low })}
+      </p>
+      <p className="text-xs text-gray-700 leading-relaxed">{data.reason}</p>
+    </div>
+  );
+};
+
+// 选中流年的十二个流月：K线 + 逐月详批
+const MonthlyPanel: React.FC<MonthlyPanelProps> = ({ point, monthly, loading, status, error, onRetry, onClose }) => {
+  const { t } = useI18n();
+  const data = (monthly?.points ?? []).map(p => ({
+    ...p,
+    bodyRange: [Math.min(p.open, p.close), Math.max(p.open, p.close)],
+  }));
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-indigo-100 shadow-sm space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <h4 className="flex items-center gap-2 font-serif-sc font-bold text-gray-800">
+          <CalendarRange className="w-4 h-4 text-indigo-600" />
+          {format(t.monthly.title, { year: point.year, ganZhi: point.ganZhi })}
+          <span className="text-xs font-normal text-gray-400 font-sans">
+            {format(t.monthly.subtitle, { age: point.age, daYun: point.daYun || t.common.unknown })}
+          </span>
+        </h4>
+        <button type="button" onClick={onClose} className="p-1 rounded text-gray-400 hover:text-gray-700" title={t.common.close}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {loading && (
+        <div className="flex items-center gap-2 text-sm text-gray-500 py-8 justify-center">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {status || t.monthly.loading}
+        </div>
+      )}
+
+      {!loading && error && (
+        <div className="flex items-center justify-between gap-4 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg px-4 py-3">
+          <span>{error}</span>
+          <button type="button" onClick={onRetry} className="flex items-center gap-1 text-xs font-bold hover:underline flex-shrink-0">
+            <RefreshCw className="w-3.5 h-3.5" />
+            {t.common.retry}
+          </button>
+        </div>
+      )}
+
+      {!loading && monthly && (
+        <>
+          <div className="h-[280px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+                <XAxis
+                  dataKey="month"
+                  tickFormatter={(month: number) => data.find(p => p.month === month)?.ganZhi ?? ''}
+                  tick={{ fontSize: 11, fill: '#6b7280' }}
+                  axisLine={{ stroke: '#e5e7eb' }}
+                  tickLine={false}
+                  interval={0}
+                />
+                <YAxis domain={[0, 100]} width={40} tick={{ fontSize: 10, fill: '#6b7280' }} axisLine={false} tickLine={false} />
+                <Tooltip content={<MonthlyTooltip />} cursor={{ fill: '#f3f4f6' }} />
+                <Bar dataKey="bodyRange" shape={<CandleShape />} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {monthly.points.map(p => (
+              <div key={p.month} className="text-xs border border-gray-100 rounded-lg p-3">
+                <p className="flex items-center justify-between mb-1">
+                  <span className="font-bold text-gray-800 font-serif-sc">{format(t.monthly.month, { ganZhi: p.ganZhi })}</span>
+                  <span className="text-gray-400 font-mono">{format(t.monthly.since, { date: p.startDate })}</span>
+                </p>
+                <p className={`leading-relaxed ${p.isFilled ? 'text-amber-700' : 'text-gray-600'}`}>{p.reason}</p>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-400">
+            {format(t.monthly.footer, {
+              model: monthly.modelName,
+              time: new Date(monthly.createdAt).toLocaleString(t.locale),
+            })}
+            {monthly.warnings && monthly.warnings.length > 0 && format(t.monthly.fixed, { count: monthly.warnings.length })}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MonthlyPanel;
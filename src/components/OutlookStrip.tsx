@@ -0,0 +1,80 @@
+import React from 'react';
+import { Outlook, OUTLOOK_YEARS } from '../services/outlookService';
+import { format, useI18n } from '../i18n';
+import { TrendingUp, TrendingDown, MoveRight, Trophy, AlertTriangle, RefreshCcw } from 'lucide-react';
+
+interface OutlookStripProps {
+  outlook: Outlook;
+}
+
+// 文字见 i18n 的 outlook.up / down / flat
+const TREND_STYLE = {
+  up: { className: 'text-green-700 bg-green-50 border-green-100', icon: TrendingUp },
+  down: { className: 'text-red-700 bg-red-50 border-red-100', icon: TrendingDown },
+  flat: { className: 'text-gray-700 bg-gray-50 border-gray-200', icon: MoveRight },
+};
+
+const OutlookStrip: React.FC<OutlookStripProps> = ({ outlook }) => {
+  const { t } = useI18n();
+  const text = t.outlook;
+  const { points, best, worst, trend, slope, daYunChange } = outlook;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const trendInfo = TREND_STYLE[trend];
+  const TrendIcon = trendInfo.icon;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-serif-sc font-bold text-gray-800">
+          {points.length === OUTLOOK_YEARS ? text.title : format(text.titleShort, { count: points.length })}{' '}
+          <span className="text-xs font-normal text-gray-400 font-mono">
+            {format(text.range, { fromYear: first.year, toYear: last.year, fromAge: first.age, toAge: last.age })}
+          </span>
+        </h4>
+        <span className={`flex items-center gap-1 text-xs font-bold px-2 py-1 rounded border ${trendInfo.className}`}>
+          <TrendIcon className="w-3.5 h-3.5" />
+          {text[trend]} ({format(text.slope, { value: `${slope > 0 ? '+' : ''}${slope.toFixed(1)}` })})
+        </span>
+      </div>
+
+      {/* 十年分数走势 */}
+      <div className="flex gap-1">
+        {points.map(p => {
+          const isUp = p.close >= p.open;
+          return (
+            <div
+              key={p.year}
+              className={`flex-1 text-center rounded py-1 text-[10px] leading-tight ${
+                p === best ? 'ring-2 ring-green-400' : p === worst ? 'ring-2 ring-red-400' : ''
+              } ${isUp ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}
+              title={format(text.yearTitle, { year: p.year, ganZhi: p.ganZhi, daYun: p.daYun ?? '', score: p.score })}
+            >
+              <div className="font-mono">{p.year}</div>
+              <div className="font-bold">{p.score}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-xs text-gray-700">
+        <p className="flex items-center gap-1">
+          <Trophy className="w-3.5 h-3.5 text-green-600 flex-shrink-0" />
+          {format(text.best, { year: best.year, ganZhi: best.ganZhi, age: best.age, score: best.score })}
+        </p>
+        <p className="flex items-center gap-1">
+          <AlertTriangle className="w-3.5 h-3.5 text-red-600 flex-shrink-0" />
+          {format(text.worst, { year: worst.year, ganZhi: worst.ganZhi, age: worst.age, score: worst.score })}
+        </p>
+        <p className="flex items-center gap-1">
+          <RefreshCcw className="w-3.5 h-3.5 text-indigo-600 flex-shrink-0" />
+          {daYunChange
+            ? format(text.daYunChange, { year: daYunChange.year, age: daYunChange.age, daYun: daYunChange.daYun ?? '' })
+            : format(text.noDaYunChange, { daYun: first.daYun || text.current })}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default OutlookStrip;
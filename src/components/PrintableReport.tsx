@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { Gender, SavedReading } from '../types';
+import LifeKLineChart from './LifeKLineChart';
+import AnalysisResult from './AnalysisResult';
+import { analyzeTurningPoints } from '../services/turningPointService';
+import { format, useI18n } from '../i18n';
+
+// 仅在打印 (导出 PDF) 时显示的完整报告：封面、K线图、分析卡片、流年详批附录
+// 打印页宽约 180mm，图表按固定尺寸绘制，矢量输出不受屏幕分辨率影响
+const PRINT_CHART_SIZE = { width: 680, height: 460 };
+
+interface PrintableReportProps {
+  reading: SavedReading;
+}
+
+const PrintableReport: React.FC<PrintableReportProps> = ({ reading }) => {
+  const { t } = useI18n();
+  const text = t.print;
+  const { input, result } = reading;
+  const pillars = result.analysis.bazi;
+  const turningPoints = useMemo(() => analyzeTurningPoints(result.chartData), [result.chartData]);
+
+  return (
+    <div className="hidden print:block font-serif-sc text-gray-900">
+      {/* Cover */}
+      <section className="min-h-[250mm] flex flex-col items-center justify-center text-center gap-10 break-after-page">
+        <div>
+          <p className="text-sm tracking-[0.5em] text-gray-500 mb-4">LIFE DESTINY K-LINE</p>
+          <h1 className="text-4xl font-bold tracking-widest">{text.title}</h1>
+        </div>
+        <p className="text-2xl font-bold">
+          {input.name || t.common.unnamed}
+          <span className="ml-3 text-base font-normal text-gray-500">
+            {input.gender === Gender.MALE ? t.common.male : t.common.female}
+          </span>
+        </p>
+        <div className="flex gap-10">
+          {pillars.map((pillar, index) => (
+            <div key={index}>
+              <div className="text-xs text-gray-500 mb-2">{t.common.pillars[index]}</div>
+              <div className="text-4xl font-bold tracking-widest">{pillar}</div>
+            </div>
+          ))}
+        </div>
+        <div className="text-sm text-gray-500 space-y-1">
+          {input.birthDate && <p>{format(text.birth, { date: input.birthDate, time: input.birthTime })}</p>}
+          <p>{format(text.createdAt, { time: new Date(reading.createdAt).toLocaleString(t.locale) })}</p>
+          <p>{format(text.model, { model: reading.modelName })}</p>
+          {result.template && (
+            <p>{format(text.template, { template: format(t.templates.used, { name: result.template.name, version: result.template.version }) })}</p>
+          )}
+        </div>
+      </section>
+
+      {/* Chart */}
+      <section className="break-after-page">
+        <h2 className="text-2xl font-bold mb-4">{t.app.chartTitle}</h2>
+        <LifeKLineChart data={result.chartData} animate={false} size={PRINT_CHART_SIZE} turningPoints={turningPoints} />
+      </section>
+
+      {/* Analysis cards */}
+      <section className="break-after-page [&_.rounded-xl]:break-inside-avoid">
+        <h2 className="text-2xl font-bold mb-4">{text.analysisTitle}</h2>
+        <AnalysisResult analysis={result.analysis} turningPoints={turningPoints} />
+      </section>
+
+      {/* Appendix */}
+      <section>
+        <h2 className="text-2xl font-bold mb-4">{text.appendixTitle}</h2>
+        <table className="w-full text-xs border-collapse">
+          <thead>
+            <tr className="border-b-2 border-gray-300 text-left">
+              <th className="py-1 pr-2 w-20">{text.year}</th>
+              <th className="py-1 pr-2 w-12">{text.age}</th>
+              <th className="py-1 pr-2 w-16">{text.daYun}</th>
+              <th className="py-1 pr-2 w-10">{text.score}</th>
+              <th className="py-1">{text.reason}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.chartData.map(point => (
+              <tr key={point.age} className="border-b border-gray-200 align-top break-inside-avoid">
+                <td className="py-1 pr-2">{point.year} {point.ganZhi}</td>
+                <td className="py-1 pr-2">{format(t.common.age, { age: point.age })}</td>
+                <td className="py-1 pr-2">{point.daYun}</td>
+                <td className="py-1 pr-2">{point.score}</td>
+                <td className="py-1 leading-relaxed">
+                  {point.reason}
+                  {point.isFilled && <span className="text-amber-600">{text.filled}</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+};
+
+export default PrintableReport;
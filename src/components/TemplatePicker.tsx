@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_TEMPLATE_ID,
+  TEMPLATE_VARIABLES,
+  deleteCustomTemplate,
+  getTemplate,
+  isBuiltInTemplateId,
+  listTemplates,
+  saveCustomTemplate,
+} from '../services/promptTemplateService';
+import { format, useI18n } from '../i18n';
+import { BookOpen, Copy, Pencil, Plus, Save, Trash2 } from 'lucide-react';
+
+interface TemplatePickerProps {
+  value: string;
+  onChange: (id: string) => void;
+}
+
+// 正在编辑的模板；没有 id 时保存为新的自定义模板
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  body: string;
+}
+
+// 表单中的解读流派选择。内置模板只能复制后修改，自定义模板可直接编辑或删除
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ value, onChange }) => {
+  const { language, t } = useI18n();
+  const text = t.templates;
+  // 自定义模板增删后递增，触发重新读取列表
+  const [, setRevision] = useState(0);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const templates = listTemplates(language);
+  const selected = getTemplate(value, language);
+  const builtIns = templates.filter(template => template.builtIn);
+  const customs = templates.filter(template => !template.builtIn);
+
+  const openEditor = (next: TemplateDraft) => {
+    setDraft(next);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError(text.nameRequired);
+      return;
+    }
+    if (!draft.body.trim()) {
+      setError(text.bodyRequired);
+      return;
+    }
+    try {
+      const saved = saveCustomTemplate(draft);
+      setRevision(prev => prev + 1);
+      setDraft(null);
+      onChange(saved.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleDelete = () => {
+    if (!draft?.id || !window.confirm(format(text.deleteConfirm, { name: draft.name }))) return;
+    try {
+      deleteCustomTemplate(draft.id);
+      setRevision(prev => prev + 1);
+      setDraft(null);
+      onChange(DEFAULT_TEMPLATE_ID);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="bg-emerald-50 p-4 rounded-xl border border-emerald-100">
+      <div className="flex items-center gap-2 mb-3 text-emerald-800 text-sm font-bold">
+        <BookOpen className="w-4 h-4" />
+        <span>{text.section}</span>
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={selected.id}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setDraft(null);
+          }}
+          className="flex-1 min-w-0 px-3 py-2 border border-emerald-200 rounded-lg text-sm outline-none bg-white focus:ring-2 focus:ring-emerald-500"
+        >
+          {builtIns.map(template => (
+            <option key={template.id} value={template.id}>{template.name}</option>
+          ))}
+          {customs.length > 0 && (
+            <optgroup label={text.customGroup}>
+              {customs.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {selected.builtIn ? (
+          <button
+            type="button"
+            onClick={() => openEditor({ name: format(text.copyName, { name: selected.name }), body: selected.body })}
+            className="px-2 rounded-lg border border-emerald-200 bg-white text-emerald-700 hover:bg-emerald-100"
+            title={text.copy}
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => openEditor({ id: selected.id, name: selected.name, body: selected.body })}
+            className="px-2 rounded-lg border border-emerald-200 bg-white text-emerald-700 hover:bg-emerald-100"
+            title={text.edit}
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => openEditor({ name: '', body: '' })}
+          className="px-2 rounded-lg border border-emerald-200 bg-white text-emerald-700 hover:bg-emerald-100"
+          title={text.create}
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-xs text-emerald-700/70 mt-2">
+        {isBuiltInTemplateId(selected.id)
+          ? text.builtIn[selected.id].description
+          : format(text.customDescription, { version: selected.version })}
+      </p>
+
+      {draft && (
+        <div className="mt-3 space-y-2">
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">{text.name}</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="w-full px-3 py-2 border border-emerald-200 rounded-lg text-sm outline-none bg-white focus:ring-2 focus:ring-emerald-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-gray-600 mb-1">{text.body}</label>
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              rows={6}
+              className="w-full px-3 py-2 border border-emerald-200 rounded-lg text-xs font-mono outline-none bg-white focus:ring-2 focus:ring-emerald-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {text.bodyHint}{' '}
+              <span className="font-mono">{TEMPLATE_VARIABLES.map(name => `{${name}}`).join(' ')}</span>
+            </p>
+          </div>
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-bold"
+            >
+              <Save className="w-3.5 h-3.5" />
+              {text.save}
+            </button>
+            {draft.id && (
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 text-xs font-bold"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+                {text.delete}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 rounded-lg border border-gray-300 text-gray-600 hover:text-gray-800 text-xs font-bold"
+            >
+              {t.common.cancel}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePicker;
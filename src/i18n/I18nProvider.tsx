@@ -0,0 +1,22 @@
+import React, { useEffect, useState } from 'react';
+import { Language } from './types';
+import { getLanguage, getTranslations, setLanguage as storeLanguage } from './language';
+import { I18nContext } from './useI18n';
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(getLanguage);
+  const t = getTranslations(language);
+
+  // 页面语言与标题跟随切换
+  useEffect(() => {
+    document.documentElement.lang = t.locale;
+    document.title = t.app.documentTitle;
+  }, [t]);
+
+  const setLanguage = (next: Language) => {
+    storeLanguage(next);
+    setLanguageState(next);
+  };
+
+  return <I18nContext.Provider value={{ language, setLanguage, t }}>{children}</I18nContext.Provider>;
+};
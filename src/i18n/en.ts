@@ -0,0 +1,460 @@
+import { Translations } from './types';
+
+// 英文。干支、大运等术语保留中文，括注英文说明
+
+const en: Translations = {
+  locale: 'en-US',
+
+  common: {
+    age: 'age {age}',
+    yearGanZhi: '{year} {ganZhi}',
+    unknown: 'Unknown',
+    none: 'None',
+    noData: 'No data',
+    empty: 'empty',
+    unnamed: 'Unnamed',
+    close: 'Close',
+    cancel: 'Cancel',
+    save: 'Save',
+    retry: 'Retry',
+    good: 'Good',
+    bad: 'Bad',
+    goodUp: 'Good ▲',
+    badDown: 'Bad ▼',
+    filled: '(missing data, filled in)',
+    self: 'Me',
+    partner: 'Partner',
+    male: 'Male (乾造)',
+    female: 'Female (坤造)',
+    pillars: ['Year', 'Month', 'Day', 'Hour'],
+    listSeparator: ', ',
+  },
+
+  app: {
+    documentTitle: 'Life K-Line | BaZi Destiny Visualised',
+    title: 'Life K-Line',
+    language: 'Language',
+    import: 'Import',
+    importTitle: 'Import an exported JSON report',
+    brand: 'Qianxue Tianxia',
+    heroTitle: 'See the ups and downs of fate',
+    heroHighlight: 'Foresee the path of your life',
+    heroIntro: 'Combining {traditional} with {finance}, we draw your lifetime fortune as a stock-style K-line chart, helping you spot the bull markets of life, avoid the bear markets and seize the key turning points.',
+    heroTraditional: 'traditional BaZi astrology',
+    heroFinance: 'financial visualisation',
+    tutorial: 'User guide',
+    apiTutorial: 'API guide',
+    generating: 'Drawing the K-line live…',
+    generatedYears: '{received}/{total} years generated',
+    reportTitle: 'Destiny Report',
+    reportTitleNamed: 'Destiny Report for {name}',
+    share: 'Share',
+    shareTitle: 'Create a link that contains the report',
+    export: 'Export',
+    exportTitle: 'Export as a JSON file',
+    pdfTitle: 'Print or save as PDF',
+    image: 'Image',
+    imageTitle: 'Export the K-line chart as a PNG image',
+    restart: '← New reading',
+    readOnlyNotice: 'This read-only report was opened from a share link and is not saved to your local history. Click "Export" to keep a copy.',
+    chartTitle: 'Yearly Fortune Chart (100 years)',
+    chartLegend: '{green} mean rising fortune (good), {red} mean falling fortune (bad). (Click a candle for the yearly reading.)',
+    greenCandle: 'Green candles',
+    redCandle: 'red candles',
+    corrections: 'Corrected {count} annual / Da Yun fields against the calendar',
+    correctionGanZhi: 'Annual pillar',
+    correctionDaYun: 'Da Yun',
+    warnings: 'Data validation found {count} issues and fixed them',
+    footer: '{year} Life K-Line · Qianxue Tianxia | For entertainment and cultural study only',
+    attempt: 'attempt {attempt}/{max}',
+    retrying: '{task}: {error}, retrying in {seconds}s ({attempt})',
+    requesting: 'Requesting {task} ({attempt})',
+    apiKeyPrompt: 'Enter the API Key for {provider} (used for this session only, never saved):',
+    shareCopied: 'Share link copied to the clipboard. The whole report lives in the link and never touches a server.',
+    sharePrompt: 'Copy the share link below:',
+    shareFailed: 'Could not create the share link.',
+    shareOpenFailed: 'The share link could not be opened.',
+    imageFailed: 'Image export failed.',
+    importFailed: 'Import failed. Please check the file.',
+    renameFailed: 'Could not rename the reading. Please try again.',
+    deleteFailed: 'Could not delete the reading. Please try again.',
+    generateFailed: 'Something went wrong while generating the reading. Please try again.',
+    busy: 'The server is busy right now because of heavy API traffic. Please come back later.',
+    monthlyReadOnly: 'Reports opened from a share link can only show monthly readings that were already generated.',
+    monthlyNeedsKey: 'An API Key is required to request monthly readings.',
+    monthlyFailed: 'Monthly reading failed. Please try again.',
+    chatReadOnly: 'Reports opened from a share link can only show existing follow-up questions.',
+    chatNeedsKey: 'An API Key is required to ask follow-up questions.',
+    chatFailed: 'Follow-up question failed. Please try again.',
+    suggestionDrop: 'Why does my fortune drop sharply at age {age}?',
+    suggestionStartup: 'When is a good time to start a business?',
+    suggestionDecade: 'What should I watch out for in the next ten years?',
+  },
+
+  form: {
+    title: 'BaZi Chart',
+    subtitle: 'Enter a birth time to calculate the chart, or fill in the pillars and Da Yun by hand',
+    name: 'Name (optional)',
+    namePlaceholder: 'Name',
+    gender: 'Gender',
+    male: 'Male (乾造)',
+    female: 'Female (坤造)',
+    pillarsSection: 'Birth time and Four Pillars (required)',
+    birthTime: 'Birth time (Gregorian, Beijing time)',
+    pillarsHint: 'Year and month pillars change at the solar terms; after 23:00 the day pillar uses the next day\'s 子 hour. All pillars can be edited.',
+    yearPillar: 'Year pillar',
+    monthPillar: 'Month pillar',
+    dayPillar: 'Day pillar',
+    hourPillar: 'Hour pillar',
+    edited: 'edited',
+    example: 'e.g. {value}',
+    daYunSection: 'Da Yun (luck pillars, required)',
+    startAge: 'Starting age (xu sui)',
+    firstDaYun: 'First Da Yun',
+    direction: 'Da Yun direction: ',
+    waitingYearPillar: 'Waiting for the year pillar...',
+    forward: 'Forward (Yang male / Yin female)',
+    backward: 'Backward (Yin male / Yang female)',
+    startAgeDetail: 'Luck starts {years} years {months} months {days} days after birth',
+    apiSection: 'Model API settings (required)',
+    provider: 'Provider',
+    demoHint: 'Demo mode calls no API. It draws a fixed sample curve with placeholder text from the pillars so you can preview the interface.',
+    model: 'Model',
+    optional: ' (optional)',
+    timeout: 'Request timeout (seconds)',
+    retryHint: '429/5xx responses, network errors and timeouts are retried automatically, up to {max} times.',
+    mode: 'Generation mode',
+    single: 'All at once',
+    chunked: 'Parallel by Da Yun',
+    chunkedHint: 'The report and each Da Yun are requested separately and merged, for models with limited output length.',
+    stream: 'Stream output (draw the K-line while generating; the API must support streaming)',
+    outputLanguage: 'The report is written in the current interface language; stem-branch terms stay in Chinese.',
+    submitting: 'The master is calculating (3-5 min)',
+    submit: 'Generate Life K-Line',
+    modelRequired: 'Please enter a model name',
+    baseUrlRequired: 'Please enter the API Base URL',
+    apiKeyRequired: 'Please enter the API Key',
+    allowedModels: 'Models available on this site: {models}',
+    modelNotAllowed: 'This model is not on the list allowed by this site',
+  },
+
+  templates: {
+    section: 'Interpretation school',
+    builtIn: {
+      ziping: { name: 'Zi Ping (orthodox)', description: 'Chart structure from the month branch, useful element, Ten Gods as the main thread.' },
+      mangpai: { name: 'Mang Pai', description: 'Focus on how the chart works and on imagery; concrete events and timing.' },
+      concise: { name: 'Concise', description: 'One line per year; the report gives conclusions only.' },
+    },
+    customGroup: 'Custom templates',
+    customDescription: 'Custom template · version {version}',
+    edit: 'Edit',
+    copy: 'Copy as custom',
+    create: 'New',
+    name: 'Template name',
+    body: 'Template text',
+    bodyHint: 'Appended to the system instructions. Available placeholders:',
+    copyName: '{name} (copy)',
+    save: 'Save',
+    delete: 'Delete',
+    deleteConfirm: 'Delete the template "{name}"?',
+    nameRequired: 'Please enter a template name',
+    bodyRequired: 'Please enter the template text',
+    saveFailed: 'Could not save the template. Local storage may be disabled in this browser.',
+    used: '{name} v{version}',
+  },
+
+  providers: {
+    openai: 'OpenAI-compatible API',
+    gemini: 'Google Gemini',
+    anthropic: 'Anthropic Claude',
+    ollama: 'Ollama (local)',
+    demo: 'Demo mode (offline, no API Key)',
+  },
+
+  analysis: {
+    summary: 'Overall Reading',
+    industry: 'Career',
+    wealth: 'Wealth',
+    marriage: 'Marriage & Love',
+    health: 'Health',
+    family: 'Family',
+    scoreGuide: 'Score Guide',
+    scoreRange: '{from}-{to}',
+    terrible: 'Very poor',
+    poor: 'Poor',
+    average: 'Average',
+    good: 'Good',
+    excellent: 'Excellent',
+    scoreNote: 'Note: fate is also shaped by environment and personal choices, and a BaZi trend cannot fully represent a real life. Destiny study is not mysticism but a philosophical tool that helps us make better choices on the journey of life.',
+  },
+
+  compatibility: {
+    title: 'Compatibility · {a} × {b}',
+    relations: 'Stem-branch relations: ',
+    relation: '{position} {pair} {kind}',
+    relationGood: ' (favourable)',
+    relationBad: ' (unfavourable)',
+    relationSeparator: '; ',
+    noRelations: 'No notable combinations or clashes between the day and year pillars.',
+    positions: {
+      dayStem: 'Day stem',
+      dayBranch: 'Day branch',
+      yearBranch: 'Year branch',
+    },
+    kinds: {
+      stemCombination: 'combination (相合)',
+      combination: 'six harmony (六合)',
+      triad: 'triad (三合)',
+      clash: 'clash (相冲)',
+      harm: 'harm (相害)',
+    },
+    trend: 'Fortune trend: ',
+    trendText: 'Over the {overlap} years you share, {good} are good for both and {bad} are bad for both. The correlation of your curves is {correlation}: {trend}.',
+    trendSync: 'your ups and downs largely move together',
+    trendOpposite: 'one rises as the other falls, so you complement each other',
+    trendIndependent: 'your fortunes are largely independent',
+    note: 'The compatibility score combines day-stem combinations, day and year branch relations, and how closely both yearly trends move together. For reference only.',
+  },
+
+  turning: {
+    title: 'Key Turning Points',
+    peaks: 'Peaks',
+    troughs: 'Troughs',
+    phases: 'Bull / Bear Phases',
+    drops: 'Sharp Drops',
+    none: 'Nothing notable',
+    year: '{year} {ganZhi} (age {age})',
+    high: 'high {value}',
+    low: 'low {value}',
+    drop: 'down {value}',
+    bull: 'Bull',
+    bear: 'Bear',
+    phaseRange: '{fromYear}-{toYear} (age {fromAge}-{toAge}) ',
+    note: 'Peaks and troughs are extremes within five years on either side; four or more consecutive good or bad years form a bull or bear phase. All computed locally from the K-line data.',
+    peakMarker: 'Peak',
+    troughMarker: 'Low',
+    dropMarker: 'Drop -{value}',
+    toggle: 'Turning points',
+  },
+
+  chart: {
+    title: 'Life Fortune K-Line',
+    up: 'Good (up)',
+    down: 'Bad (down)',
+    ageAxis: 'Age',
+    scoreAxis: 'Score',
+    thisYear: 'This year',
+    daYun: 'Da Yun: {daYun}',
+    open: 'Open',
+    close: 'Close',
+    high: 'High',
+    low: 'Low',
+    bollUpper: 'BOLL upper',
+    bollMiddle: 'BOLL middle',
+    bollLower: 'BOLL lower',
+    indicators: {
+      ma5: 'MA5',
+      ma10: 'MA10',
+      ma20: 'MA20',
+      boll: 'Bollinger',
+      daYunAvg: 'Da Yun avg',
+      scoreChange: 'Score change',
+    },
+    dimensions: 'Aspects',
+    scoreChange: '{year} score change {value}',
+    zoomedRange: 'age {from}-{to} · drag to pan',
+    zoomHint: 'Click a Da Yun label to zoom in',
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    showAll: 'Show all',
+    pinnedHint: 'Yearly reading · use ← → to switch years',
+    viewMonthly: 'Monthly view',
+    prevYear: 'Previous year',
+    nextYear: 'Next year',
+  },
+
+  dimensions: {
+    industry: 'Career',
+    wealth: 'Wealth',
+    marriage: 'Marriage',
+    health: 'Health',
+  },
+
+  outlook: {
+    title: 'Ten-Year Outlook',
+    titleShort: '{count}-Year Outlook',
+    range: '{fromYear}-{toYear} · age {fromAge}-{toAge}',
+    up: 'Trending up',
+    down: 'Trending down',
+    flat: 'Mostly flat',
+    slope: '{value}/yr',
+    yearTitle: '{year} {ganZhi} · {daYun} · {score}',
+    best: 'Best: {year} {ganZhi} (age {age}) {score}',
+    worst: 'Worst: {year} {ganZhi} (age {age}) {score}',
+    daYunChange: 'Enters the {daYun} Da Yun in {year} (age {age})',
+    noDaYunChange: 'No Da Yun change within ten years; stays in {daYun}',
+    current: 'the current',
+  },
+
+  comparison: {
+    title: 'Compare Two People',
+    select: 'Choose another report from history…',
+    clear: 'Stop comparing',
+    hint: 'Choose another report to overlay both fortune curves by Gregorian year, with shared good and bad years and a compatibility reading.',
+    hintEmpty: 'There are no other reports in your history yet. Generate a reading for the other person first, then come back here to compare.',
+    yearTitle: '{year} {ganZhi}',
+    bothGood: '{count} years good for both · push forward together',
+    bothBad: '{count} years bad for both · support each other and hold steady',
+    divergent: 'Opposite trends · one can make up for the other',
+  },
+
+  monthly: {
+    title: '{year} {ganZhi} · Monthly K-Line',
+    subtitle: 'age {age} · {daYun} Da Yun',
+    loading: 'Generating monthly readings…',
+    month: '{ganZhi} month',
+    startDate: 'from {date}',
+    since: 'from {date}',
+    ohlc: 'O {open} · C {close} · H {high} · L {low}',
+    footer: 'Months follow the solar terms; pillars and start dates come from the calendar · {model} · {time}',
+    fixed: ' · {count} data issues fixed automatically',
+  },
+
+  chat: {
+    title: 'Ask the Master',
+    clear: 'Clear conversation',
+    clearConfirm: 'Clear all follow-up questions for this report?',
+    empty: 'Ask anything about the report. Answers draw on the chart and the 100-year K-line, and the years mentioned are highlighted on the chart.',
+    highlight: 'Show on chart',
+    highlightTitle: 'Highlight these years on the K-line chart',
+    thinking: 'The master is thinking…',
+    placeholder: 'e.g. Why the big drop at 38? When should I start a business?',
+    send: 'Send',
+  },
+
+  history: {
+    title: 'History',
+    deleteConfirm: 'Delete "{title}"? This cannot be undone.',
+    open: 'Open',
+    rename: 'Rename',
+    delete: 'Delete',
+  },
+
+  print: {
+    title: 'Life K-Line · Destiny Report',
+    birth: 'Born: {date} {time}',
+    createdAt: 'Generated: {time}',
+    model: 'Model: {model}',
+    template: 'Interpretation school: {template}',
+    analysisTitle: 'Detailed Reading',
+    appendixTitle: 'Appendix: Yearly Readings',
+    year: 'Year',
+    age: 'Age',
+    daYun: 'Da Yun',
+    score: 'Score',
+    reason: 'Reading',
+    filled: ' (missing data, filled in)',
+  },
+
+  services: {
+    cancelled: 'Generation cancelled.',
+    modelNotAllowed: 'The model {model} is not available on this site. Available models: {models}',
+    apiKeyMissing: 'Please enter a valid API Key in the form',
+    baseUrlMissing: 'Please enter a valid API Base URL in the form',
+    apiFailed: 'API request failed: {status} - {text}',
+    emptyResponse: 'The model returned no content.',
+    timeout: 'Request timed out ({seconds}s)',
+    network: 'Network error: {message}',
+    invalidJson: 'The JSON returned by the model could not be parsed. The output may have been truncated; try the parallel-by-Da-Yun mode.',
+    streamUnsupported: 'This environment cannot read streaming responses.',
+    streamError: 'API streaming error: {message}',
+    demoNoRequest: 'Demo mode does not make network requests.',
+    invalidDaYun: 'Could not derive the Da Yun. Check that the month pillar or first Da Yun is a valid stem-branch pair',
+    segmentFailed: 'Age {from}-{to} ({daYun}) failed: {message}',
+    invalidReport: 'The destiny report returned by the model is malformed.',
+    missingAnswer: 'The model returned malformed data (missing answer).',
+    taskFull: '100-year K-line and destiny report',
+    taskReport: 'destiny report',
+    taskSegment: 'years for age {from}-{to}',
+    taskMonthly: 'monthly readings for {year}',
+    taskFollowUp: 'follow-up answer',
+    indexedDbUnsupported: 'This browser does not support IndexedDB, so history cannot be saved.',
+    defaultTitle: '{name} · {pillars} · {date}',
+    importFailed: 'Import failed: {reason}',
+    importNoVersion: 'The file has no valid version number.',
+    importWrongFormat: 'This is not a report exported from Life K-Line.',
+    importTooNew: 'The file version (v{version}) is newer than supported (v{supported}). Please update and try again.',
+    importNoMigration: 'Cannot upgrade the file from v{version}.',
+    importNoResult: 'The report in the file is missing chartData or analysis.',
+    importInvalidJson: 'The file is not valid JSON.',
+    importNoReading: 'The file contains no report.',
+    importedTitle: 'Imported · {pillars}',
+    unknownPillars: 'unknown pillars',
+    importedReading: 'Imported report',
+    shareTooLarge: 'The share link content is too large to open.',
+    compressionUnsupported: 'This browser lacks the compression support share links need. Please update your browser.',
+    shareOverLimit: 'The report is too large: still {size}K characters after compression, over the share link limit. Please export a file instead.',
+    shareCorrupted: 'The share link is damaged or incomplete. Make sure you copied the whole link.',
+    shareInvalid: 'The report in the share link is invalid: {message}',
+    chartImageFailed: 'Could not render the chart as an image.',
+    canvasUnsupported: 'This browser does not support canvas, so the image cannot be exported.',
+    imageFailed: 'Image export failed.',
+    pngTitle: 'Life Fortune K-Line',
+    pngTitleNamed: 'Life Fortune K-Line for {name}',
+    pngBazi: 'BaZi: {pillars}',
+  },
+
+  validation: {
+    coercedNumber: '{path} was the string "{value}" and was converted to a number',
+    dimensionsNotObject: 'The aspect scores for age {age} are not an object and were ignored',
+    dimensionOutOfRange: 'The {key} score for age {age} was outside 0-100 and was clamped',
+    candleMissing: '{label} is missing open/close values; estimated from neighbouring data',
+    candleOutOfRange: '{label} has values outside 0-100; clamped',
+    ohlcAdjusted: '{label} had high/low values contradicting open/close; corrected',
+    ageLabel: 'Age {age}',
+    monthLabel: '{ganZhi} month',
+    yearMismatch: 'Age {age} is year {expected}, the model gave {actual}; corrected',
+    missingReason: 'Age {age} has no yearly reading',
+    filledYear: 'The model returned no data for this year; filled in from neighbouring years.',
+    invalidPoint: 'Data point {index} is not an object and was dropped',
+    invalidAge: 'Data point {index} has an invalid age ({age}) and was dropped',
+    duplicateAge: 'Age {age} appears more than once; kept the first',
+    missingAges: 'Missing data for {count} ages ({ages}); filled in and marked',
+    missingBazi: 'The model returned no valid pillars; using the pillars from the form',
+    missingAnalysis: 'Missing {field} analysis',
+    missingScore: 'Missing {field}; showing {score}',
+    scoreOutOfRange: '{field} = {value} is outside 0-10; clamped',
+    missingChartPoints: 'The model returned malformed data (missing chartPoints).',
+    emptyChartPoints: 'The model returned empty chartPoints; the K-line cannot be drawn.',
+    missingMonthlyPoints: 'The model returned malformed data (missing monthlyPoints).',
+    invalidMonth: 'Monthly data point {index} is invalid and was dropped',
+    duplicateMonth: 'Month {month} appears more than once; kept the first',
+    emptyMonthlyPoints: 'The model returned empty monthlyPoints; the monthly K-line cannot be drawn.',
+    filledMonth: 'The model returned no data for this month; filled in from neighbouring months.',
+    missingMonthReason: 'The {ganZhi} month has no monthly reading',
+    missingMonths: 'Missing data for {count} months ({months}); filled in and marked',
+  },
+
+  demo: {
+    reasonSuffix: '(Demo data, for previewing the interface only.)',
+    yearReason: '{year} is a {ganZhi} year in the {daYun} Da Yun; {trend}. {suffix}',
+    yearUp: 'fortune rises, a good time to push ahead',
+    yearDown: 'fortune falls, better to consolidate and avoid risk',
+    summary: '{gender} {pillars}. This placeholder summary was produced by demo mode to preview the report layout and is not a real reading.',
+    industry: 'Demo data: placeholder career analysis.',
+    wealth: 'Demo data: placeholder wealth analysis.',
+    marriage: 'Demo data: placeholder marriage analysis.',
+    health: 'Demo data: placeholder health analysis.',
+    family: 'Demo data: placeholder family analysis.',
+    monthReason: '{ganZhi} month: {trend}. {suffix}',
+    monthUp: 'things go fairly smoothly, seize the moment',
+    monthDown: 'more obstacles, best to hold steady',
+    answerIntro: 'Demo mode does not call a model. Here is a reference based on the K-line data:',
+    answerLine: '{year} (age {age}, {ganZhi}) closes at {close}: {trend}.',
+    answerUp: 'fortune rising',
+    answerDown: 'fortune falling',
+    answerNone: 'No matching years were found in the report.',
+  },
+};
+
+export default en;
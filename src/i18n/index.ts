@@ -0,0 +1,4 @@
+export type { Language, Translations, PromptSet } from './types';
+export { LANGUAGES, isLanguage, getLanguage, setLanguage, getTranslations, getPrompts, format } from './language';
+export { I18nProvider } from './I18nProvider';
+export { useI18n, formatParts } from './useI18n';
@@ -0,0 +1,460 @@
+import { Translations } from './types';
+
+// 日文。干支、大运等术语沿用中文写法
+
+const ja: Translations = {
+  locale: 'ja-JP',
+
+  common: {
+    age: '{age}歳',
+    yearGanZhi: '{year} {ganZhi}年',
+    unknown: '不明',
+    none: 'なし',
+    noData: 'データなし',
+    empty: '空',
+    unnamed: '名前なし',
+    close: '閉じる',
+    cancel: 'キャンセル',
+    save: '保存',
+    retry: '再試行',
+    good: '吉',
+    bad: '凶',
+    goodUp: '吉 ▲',
+    badDown: '凶 ▼',
+    filled: '(データ欠落のため補完)',
+    self: '本人',
+    partner: '相手',
+    male: '乾造',
+    female: '坤造',
+    pillars: ['年柱', '月柱', '日柱', '時柱'],
+    listSeparator: '、',
+  },
+
+  app: {
+    documentTitle: '人生Kライン | 四柱推命ビジュアライズ',
+    title: '人生Kライン',
+    language: '表示言語',
+    import: 'インポート',
+    importTitle: 'エクスポートした JSON レポートを読み込む',
+    brand: '潜学天下',
+    heroTitle: '運命の起伏を見通し',
+    heroHighlight: '人生の軌跡を予見する',
+    heroIntro: '{traditional}と{finance}を組み合わせ、一生の運勢を株価チャートのようなKラインで描きます。人生の上昇相場を見つけ、下落相場のリスクを避け、重要な転換点をつかみましょう。',
+    heroTraditional: '伝統的な四柱推命',
+    heroFinance: '金融可視化技術',
+    tutorial: '使い方',
+    apiTutorial: 'API の設定方法',
+    generating: 'Kラインをリアルタイム生成中…',
+    generatedYears: '{received}/{total} 年生成済み',
+    reportTitle: '命式分析レポート',
+    reportTitleNamed: '{name}さんの命式分析レポート',
+    share: '共有',
+    shareTitle: 'レポート内容を含むリンクを作成',
+    export: 'エクスポート',
+    exportTitle: 'JSON ファイルとして書き出す',
+    pdfTitle: '印刷または PDF として保存',
+    image: '画像',
+    imageTitle: 'Kラインチャートを PNG 画像で書き出す',
+    restart: '← もう一度鑑定',
+    readOnlyNotice: '共有リンクから開いた閲覧専用のレポートです。ローカルの履歴には保存されません。残す場合は「エクスポート」をクリックしてください。',
+    chartTitle: '流年・大運の推移チャート (100年)',
+    chartLegend: '{green}は運勢の上昇（吉）、{red}は運勢の下落（凶）を表します。(Kラインをクリックすると流年の詳細を表示)',
+    greenCandle: '緑のKライン',
+    redCandle: '赤のKライン',
+    corrections: '暦に基づき流年・大運のフィールドを {count} 件自動補正しました',
+    correctionGanZhi: '流年',
+    correctionDaYun: '大運',
+    warnings: 'データ検証で {count} 件の問題が見つかり、自動で修正しました',
+    footer: '{year} 人生Kライン 潜学天下 | 娯楽と文化研究のためのものです。過信しないでください',
+    attempt: '{attempt}/{max} 回目',
+    retrying: '{task}：{error}、{seconds} 秒後に再試行 ({attempt})',
+    requesting: '{task}をリクエスト中 ({attempt})',
+    apiKeyPrompt: '{provider} の API Key を入力してください（このセッションでのみ使用し、保存しません）：',
+    shareCopied: '共有リンクをクリップボードにコピーしました。レポートはすべてリンク内にあり、サーバーを経由しません。',
+    sharePrompt: '次の共有リンクをコピーしてください：',
+    shareFailed: '共有リンクを作成できませんでした。',
+    shareOpenFailed: '共有リンクを開けませんでした。',
+    imageFailed: '画像の書き出しに失敗しました。',
+    importFailed: 'インポートに失敗しました。ファイルの内容を確認してください。',
+    renameFailed: '名前を変更できませんでした。もう一度お試しください。',
+    deleteFailed: '削除できませんでした。もう一度お試しください。',
+    generateFailed: '鑑定中に予期しないエラーが発生しました。もう一度お試しください。',
+    busy: '現在サーバーが混み合っており API が詰まっています。時間をおいてお試しください',
+    monthlyReadOnly: '共有リンクから開いたレポートでは、生成済みの流月のみ表示できます。',
+    monthlyNeedsKey: '流月をリクエストするには API Key が必要です。',
+    monthlyFailed: '流月の生成に失敗しました。もう一度お試しください。',
+    chatReadOnly: '共有リンクから開いたレポートでは、既存の質問履歴のみ表示できます。',
+    chatNeedsKey: '質問するには API Key が必要です。',
+    chatFailed: '質問への回答に失敗しました。もう一度お試しください。',
+    suggestionDrop: 'なぜ{age}歳で運勢が大きく下がるのですか？',
+    suggestionStartup: '起業に向いているのはいつですか？',
+    suggestionDecade: 'これからの十年で気をつけることは？',
+  },
+
+  form: {
+    title: '四柱推命 命式作成',
+    subtitle: '生年月日時を入力すると自動で命式を作成します。四柱と大運を手入力することもできます',
+    name: '名前 (任意)',
+    namePlaceholder: '名前',
+    gender: '性別',
+    male: '乾造 (男性)',
+    female: '坤造 (女性)',
+    pillarsSection: '生年月日時と四柱干支 (必須)',
+    birthTime: '生年月日時 (新暦・北京時間)',
+    pillarsHint: '年柱・月柱は節気の切り替わりで決まり、23 時以降は翌日の子の刻として日柱を出します。四柱は手動で変更できます。',
+    yearPillar: '年柱 (Year)',
+    monthPillar: '月柱 (Month)',
+    dayPillar: '日柱 (Day)',
+    hourPillar: '時柱 (Hour)',
+    edited: '手動で変更',
+    example: '例: {value}',
+    daYunSection: '大運の情報 (必須)',
+    startAge: '立運年齢 (数え年)',
+    firstDaYun: '第一大運',
+    direction: '現在の大運の順序：',
+    waitingYearPillar: '年柱の入力待ち...',
+    forward: '順行 (陽男/陰女)',
+    backward: '逆行 (陰男/陽女)',
+    startAgeDetail: '出生後 {years} 年 {months} か月 {days} 日で立運',
+    apiSection: 'モデル API の設定 (必須)',
+    provider: 'API の種類',
+    demoHint: 'デモモードは API を呼び出さず、四柱から固定のサンプル曲線とダミーテキストを生成して画面をプレビューします。',
+    model: '使用モデル',
+    optional: ' (任意)',
+    timeout: '1 回のリクエストのタイムアウト (秒)',
+    retryHint: '429/5xx、ネットワークエラー、タイムアウトは自動で最大 {max} 回再試行します。',
+    mode: '生成方法',
+    single: '一括生成',
+    chunked: '大運ごとに並列生成',
+    chunkedHint: 'レポートと各大運を個別にリクエストして結合します。出力長に制限のあるモデル向けです。',
+    stream: 'ストリーミング出力 (生成しながらKラインを描画。API のストリーミング対応が必要)',
+    outputLanguage: 'レポートは現在の表示言語で生成され、干支は中国語表記のままです。',
+    submitting: '鑑定中 (3〜5 分)',
+    submit: '人生Kラインを生成',
+    modelRequired: 'モデル名を入力してください',
+    baseUrlRequired: 'API Base URL を入力してください',
+    apiKeyRequired: 'API Key を入力してください',
+    allowedModels: '本サイトで使えるモデル：{models}',
+    modelNotAllowed: 'このモデルは本サイトで許可されたリストにありません',
+  },
+
+  templates: {
+    section: '鑑定流派',
+    builtIn: {
+      ziping: { name: '子平正統', description: '月令で格局を定め用神を取り、十神の生剋を軸に鑑定します。' },
+      mangpai: { name: '盲派', description: '做功と取象を重視し、具体的な出来事と応期を示します。' },
+      concise: { name: '簡潔モード', description: '各年は一言、レポートは結論のみです。' },
+    },
+    customGroup: 'カスタムテンプレート',
+    customDescription: 'カスタムテンプレート · 第 {version} 版',
+    edit: '編集',
+    copy: 'カスタムとして複製',
+    create: '新規',
+    name: 'テンプレート名',
+    body: 'テンプレート本文',
+    bodyHint: '本文はシステム指示の後に追加されます。使えるプレースホルダー：',
+    copyName: '{name} (コピー)',
+    save: '保存',
+    delete: '削除',
+    deleteConfirm: 'テンプレート「{name}」を削除しますか？',
+    nameRequired: 'テンプレート名を入力してください',
+    bodyRequired: 'テンプレート本文を入力してください',
+    saveFailed: 'テンプレートを保存できませんでした。ブラウザでローカルストレージが無効になっている可能性があります。',
+    used: '{name} v{version}',
+  },
+
+  providers: {
+    openai: 'OpenAI 互換 API',
+    gemini: 'Google Gemini',
+    anthropic: 'Anthropic Claude',
+    ollama: 'Ollama (ローカル)',
+    demo: 'デモモード (オフライン、API Key 不要)',
+  },
+
+  analysis: {
+    summary: '総評',
+    industry: '仕事・業界',
+    wealth: '財運',
+    marriage: '結婚・恋愛',
+    health: '健康',
+    family: '家族・親族',
+    scoreGuide: 'スコアの見方',
+    scoreRange: '{from}-{to}点',
+    terrible: '非常に悪い',
+    poor: '悪い',
+    average: '普通',
+    good: '良い',
+    excellent: '非常に良い',
+    scoreNote: '注：運命は環境や本人の選択にも左右され、命式の傾向が実際の人生をすべて表すわけではありません。命理学は神秘主義ではなく、人生の歩みの中でより良い選択をするための哲学的な道具です。',
+  },
+
+  compatibility: {
+    title: '相性分析 · {a} × {b}',
+    relations: '干支の関係：',
+    relation: '{position} {pair}{kind}',
+    relationGood: '（吉）',
+    relationBad: '（不利）',
+    relationSeparator: '、',
+    noRelations: '日柱・年柱の間に目立った合や冲はありません。',
+    positions: {
+      dayStem: '日干',
+      dayBranch: '日支',
+      yearBranch: '年支',
+    },
+    kinds: {
+      stemCombination: '干合',
+      combination: '六合',
+      triad: '三合',
+      clash: '冲',
+      harm: '害',
+    },
+    trend: '運勢の推移：',
+    trendText: '共通する {overlap} 年のうち、ともに吉が {good} 年、ともに凶が {bad} 年。二人の曲線の相関係数は {correlation} で、{trend}。',
+    trendSync: '浮き沈みがおおむね連動しています',
+    trendOpposite: '一方が上がると他方が下がり、補い合う関係です',
+    trendIndependent: 'それぞれ独立しており、関連は小さめです',
+    note: '相性スコアは日干の合、日支・年支の合冲刑害、双方の流年の連動度から総合的に算出した参考値です。',
+  },
+
+  turning: {
+    title: '重要な転換年',
+    peaks: '高値',
+    troughs: '安値',
+    phases: '人生の上昇相場 / 下落相場',
+    drops: '単年の急落',
+    none: '目立った特徴なし',
+    year: '{year} {ganZhi}年（{age}歳）',
+    high: '高値 {value}',
+    low: '安値 {value}',
+    drop: '下落 {value}',
+    bull: '上昇相場',
+    bear: '下落相場',
+    phaseRange: '{fromYear}-{toYear}（{fromAge}-{toAge}歳）',
+    note: '高値・安値は前後五年以内の極値、四年以上続けて吉または凶の期間を上昇相場・下落相場とみなします。いずれもKラインデータからローカルで算出しています。',
+    peakMarker: '天',
+    troughMarker: '底',
+    dropMarker: '急落-{value}',
+    toggle: '転換マーク',
+  },
+
+  chart: {
+    title: '人生 流年・大運 Kラインチャート',
+    up: '吉運 (上昇)',
+    down: '凶運 (下落)',
+    ageAxis: '年齢',
+    scoreAxis: '運勢スコア',
+    thisYear: '今年',
+    daYun: '大運：{daYun}',
+    open: '始値',
+    close: '終値',
+    high: '高値',
+    low: '安値',
+    bollUpper: 'ボリンジャー上限',
+    bollMiddle: 'ボリンジャー中心',
+    bollLower: 'ボリンジャー下限',
+    indicators: {
+      ma5: 'MA5',
+      ma10: 'MA10',
+      ma20: 'MA20',
+      boll: 'ボリンジャーバンド',
+      daYunAvg: '大運平均',
+      scoreChange: 'スコア変化',
+    },
+    dimensions: '分野別',
+    scoreChange: '{year} スコア変化 {value}',
+    zoomedRange: '{from}-{to}歳 · ドラッグで移動',
+    zoomHint: '大運ラベルをクリックで拡大',
+    zoomIn: '拡大',
+    zoomOut: '縮小',
+    showAll: 'すべて表示',
+    pinnedHint: '流年の詳細 · ← → キーで年を切り替え',
+    viewMonthly: '流月を見る',
+    prevYear: '前年',
+    nextYear: '翌年',
+  },
+
+  dimensions: {
+    industry: '仕事',
+    wealth: '財運',
+    marriage: '結婚',
+    health: '健康',
+  },
+
+  outlook: {
+    title: '今後十年の展望',
+    titleShort: '今後 {count} 年の展望',
+    range: '{fromYear}-{toYear} · {fromAge}-{toAge}歳',
+    up: '全体的に上昇',
+    down: '全体的に下降',
+    flat: 'おおむね横ばい',
+    slope: '{value}/年',
+    yearTitle: '{year} {ganZhi} · {daYun} · {score}点',
+    best: '最良：{year} {ganZhi}年（{age}歳）{score}点',
+    worst: '最悪：{year} {ganZhi}年（{age}歳）{score}点',
+    daYunChange: '{year}年（{age}歳）に {daYun} 運へ交代',
+    noDaYunChange: '十年以内に大運の交代はなく、引き続き {daYun} 運',
+    current: '現在の',
+  },
+
+  comparison: {
+    title: '二人の比較',
+    select: '履歴から別のレポートを選択…',
+    clear: '比較をやめる',
+    hint: '別のレポートを選ぶと、西暦年で二人の運勢曲線を重ね、ともに吉・ともに凶の年と相性分析を表示します。',
+    hintEmpty: '履歴にほかのレポートがまだありません。先に相手の命式でレポートを作成してから、ここで比較してください。',
+    yearTitle: '{year} {ganZhi}年',
+    bothGood: 'ともに吉 {count} 年 · 一緒に力を注ぐのに適した時期',
+    bothBad: 'ともに凶 {count} 年 · 支え合い、守りを固める時期',
+    divergent: '逆の動き · 一方が他方を補える時期',
+  },
+
+  monthly: {
+    title: '{year} {ganZhi}年 · 流月Kライン',
+    subtitle: '{age}歳 · {daYun}運',
+    loading: '流月を生成中…',
+    month: '{ganZhi}月',
+    startDate: '{date} 節入り',
+    since: '{date} から',
+    ohlc: '始 {open} · 終 {close} · 高 {high} · 安 {low}',
+    footer: '流月は節気で区切り、干支と節入り日は暦に基づいて算出 · {model} · {time}',
+    fixed: ' · データの問題を {count} 件自動修正',
+  },
+
+  chat: {
+    title: '命理師に質問',
+    clear: '会話を消去',
+    clearConfirm: 'このレポートの質問履歴をすべて消去しますか？',
+    empty: 'レポートについて気になることをそのまま質問できます。回答は命式と百年のKラインに基づき、言及された年はチャート上で強調表示されます。',
+    highlight: 'チャートに表示',
+    highlightTitle: 'これらの年をKラインチャートで強調表示',
+    thinking: '命理師が考えています…',
+    placeholder: '例：なぜ38歳で大きく下がるの？起業に向いているのはいつ？',
+    send: '送信',
+  },
+
+  history: {
+    title: '履歴',
+    deleteConfirm: '「{title}」を削除しますか？削除すると元に戻せません。',
+    open: '開く',
+    rename: '名前を変更',
+    delete: '削除',
+  },
+
+  print: {
+    title: '人生Kライン · 命式分析レポート',
+    birth: '生年月日時：{date} {time}',
+    createdAt: '作成日時：{time}',
+    model: 'モデル：{model}',
+    template: '鑑定流派：{template}',
+    analysisTitle: '命理の詳細',
+    appendixTitle: '付録：流年の詳細',
+    year: '年',
+    age: '年齢',
+    daYun: '大運',
+    score: 'スコア',
+    reason: '詳細',
+    filled: '（データ欠落のため補完）',
+  },
+
+  services: {
+    cancelled: '今回の生成をキャンセルしました。',
+    modelNotAllowed: '本サイトではモデル {model} を利用できません。利用できるモデル：{models}',
+    apiKeyMissing: 'フォームに有効な API Key を入力してください',
+    baseUrlMissing: 'フォームに有効な API Base URL を入力してください',
+    apiFailed: 'API リクエストに失敗しました: {status} - {text}',
+    emptyResponse: 'モデルから内容が返されませんでした。',
+    timeout: 'リクエストがタイムアウトしました ({seconds} 秒)',
+    network: 'ネットワークエラー: {message}',
+    invalidJson: 'モデルが返した JSON を解析できません。出力が長すぎて途中で切れた可能性があります。大運ごとの並列生成をお試しください。',
+    streamUnsupported: 'この環境ではストリーミング応答を読み取れません。',
+    streamError: 'API ストリーミング応答エラー: {message}',
+    demoNoRequest: 'デモモードではネットワークリクエストを行いません。',
+    invalidDaYun: '大運を算出できません。月柱または第一大運が正しい干支か確認してください',
+    segmentFailed: '{from}-{to}歳 ({daYun}) の生成に失敗しました：{message}',
+    invalidReport: 'モデルが返した命式レポートの形式が正しくありません。',
+    missingAnswer: 'モデルが返したデータの形式が正しくありません（answer がありません）。',
+    taskFull: '100 年分の流年Kラインと命式レポート',
+    taskReport: '命式レポート',
+    taskSegment: '{from}-{to}歳の流年',
+    taskMonthly: '{year}年の流月',
+    taskFollowUp: '質問への回答',
+    indexedDbUnsupported: 'このブラウザは IndexedDB に対応していないため、履歴を保存できません。',
+    defaultTitle: '{name} · {pillars} · {date}',
+    importFailed: 'インポートに失敗しました：{reason}',
+    importNoVersion: 'ファイルに有効なバージョン番号がありません。',
+    importWrongFormat: '人生Kラインからエクスポートしたレポートファイルではありません。',
+    importTooNew: 'ファイルのバージョン (v{version}) が対応バージョン (v{supported}) より新しいため読み込めません。アップデートしてからお試しください。',
+    importNoMigration: 'v{version} からファイルを変換できません。',
+    importNoResult: 'ファイル内のレポートに chartData または analysis がありません。',
+    importInvalidJson: 'ファイルが有効な JSON ではありません。',
+    importNoReading: 'ファイルにレポートの内容がありません。',
+    importedTitle: 'インポート · {pillars}',
+    unknownPillars: '四柱不明',
+    importedReading: 'インポートしたレポート',
+    shareTooLarge: '共有リンクの内容が大きすぎるため開けません。',
+    compressionUnsupported: 'このブラウザは共有リンクに必要な圧縮機能に対応していません。ブラウザを更新してください。',
+    shareOverLimit: 'レポートの内容が多すぎます。圧縮後も {size}K 文字あり共有リンクの上限を超えるため、ファイルでエクスポートしてください。',
+    shareCorrupted: '共有リンクが壊れているか不完全です。リンク全体をコピーしたか確認してください。',
+    shareInvalid: '共有リンク内のレポートが無効です：{message}',
+    chartImageFailed: 'チャートを画像に変換できませんでした。',
+    canvasUnsupported: 'このブラウザは canvas に対応していないため、画像を書き出せません。',
+    imageFailed: '画像の書き出しに失敗しました。',
+    pngTitle: '人生 流年・大運 Kラインチャート',
+    pngTitleNamed: '{name}さんの人生 流年・大運 Kラインチャート',
+    pngBazi: '八字：{pillars}',
+  },
+
+  validation: {
+    coercedNumber: '{path} が文字列 "{value}" だったため数値に変換しました',
+    dimensionsNotObject: '{age}歳の分野別スコアがオブジェクトではないため無視しました',
+    dimensionOutOfRange: '{age}歳の {key} スコアが 0-100 の範囲外のため切り詰めました',
+    candleMissing: '{label}に始値/終値がないため、隣接データから推定しました',
+    candleOutOfRange: '{label}の値が 0-100 の範囲外のため切り詰めました',
+    ohlcAdjusted: '{label}の高値/安値が始値・終値と矛盾していたため修正しました',
+    ageLabel: '{age}歳',
+    monthLabel: '{ganZhi}月',
+    yearMismatch: '{age}歳は {expected} 年ですが、モデルは {actual} を返したため修正しました',
+    missingReason: '{age}歳の流年の詳細がありません',
+    filledYear: 'モデルがこの年のデータを返さなかったため、隣接する年から補完しました。',
+    invalidPoint: '{index} 番目のデータ点がオブジェクトではないため破棄しました',
+    invalidAge: '{index} 番目のデータ点の年齢が無効 ({age}) のため破棄しました',
+    duplicateAge: '{age}歳が重複しているため、最初の 1 件のみ残しました',
+    missingAges: '{count} 年分のデータ ({ages}) がないため、補完して印を付けました',
+    missingBazi: 'モデルが有効な四柱を返さなかったため、入力された四柱を使用します',
+    missingAnalysis: '{field} の分析内容がありません',
+    missingScore: '{field} がないため {score} 点として表示します',
+    scoreOutOfRange: '{field} = {value} が 0-10 の範囲外のため切り詰めました',
+    missingChartPoints: 'モデルが返したデータの形式が正しくありません（chartPoints がありません）。',
+    emptyChartPoints: 'モデルが返した chartPoints が空のため、Kラインを描画できません。',
+    missingMonthlyPoints: 'モデルが返したデータの形式が正しくありません（monthlyPoints がありません）。',
+    invalidMonth: '{index} 番目の流月データが無効なため破棄しました',
+    duplicateMonth: '{month} 月目が重複しているため、最初の 1 件のみ残しました',
+    emptyMonthlyPoints: 'モデルが返した monthlyPoints が空のため、流月Kラインを描画できません。',
+    filledMonth: 'モデルがこの月のデータを返さなかったため、隣接する月から補完しました。',
+    missingMonthReason: '{ganZhi}月の流月の詳細がありません',
+    missingMonths: '{count} か月分のデータ ({months}) がないため、補完して印を付けました',
+  },
+
+  demo: {
+    reasonSuffix: '（デモデータです。画面のプレビュー専用です）',
+    yearReason: '{year}年は{ganZhi}の年、{daYun}運の中にあり、{trend}。{suffix}',
+    yearUp: '運勢は上向きで、積極的に進むのが吉',
+    yearDown: '運勢は下向きで、守りを固めてリスクを避けるのが吉',
+    summary: '{gender} {pillars}。これはデモモードで生成したダミーの総評で、レポートのレイアウト確認用です。実際の鑑定ではありません。',
+    industry: 'デモデータ：仕事の分析のダミーテキスト。',
+    wealth: 'デモデータ：財運の分析のダミーテキスト。',
+    marriage: 'デモデータ：結婚の分析のダミーテキスト。',
+    health: 'デモデータ：健康の分析のダミーテキスト。',
+    family: 'デモデータ：家族の分析のダミーテキスト。',
+    monthReason: '{ganZhi}月、{trend}。{suffix}',
+    monthUp: '物事が比較的順調で、好機をつかめる',
+    monthDown: '停滞が多く、守りを優先すべき',
+    answerIntro: 'デモモードではモデルを呼び出しません。Kラインのデータに基づく参考情報です：',
+    answerLine: '{year}年 ({age}歳、{ganZhi}) 終値 {close}、{trend}。',
+    answerUp: '運勢は上向き',
+    answerDown: '運勢は下向き',
+    answerNone: 'レポート内に該当する年が見つかりませんでした。',
+  },
+};
+
+export default ja;
@@ -0,0 +1,59 @@
+import { Language, PromptSet, Translations } from './types';
+import zh from './zh';
+import en from './en';
+import ja from './ja';
+import { zhPrompts } from './prompts/zh';
+import { enPrompts } from './prompts/en';
+import { jaPrompts } from './prompts/ja';
+
+// 界面语言：保存在 localStorage，首次打开按浏览器语言选择。
+// 服务层的报错与校验提示取当前界面语言；Prompt 与演示文本取报告自身的语言。
+
+const STORAGE_KEY = 'life-kline-language';
+
+export const LANGUAGES: { id: Language; label: string }[] = [
+  { id: 'zh', label: '中文' },
+  { id: 'en', label: 'English' },
+  { id: 'ja', label: '日本語' },
+];
+
+const TRANSLATIONS: Record<Language, Translations> = { zh, en, ja };
+const PROMPTS: Record<Language, PromptSet> = { zh: zhPrompts, en: enPrompts, ja: jaPrompts };
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some(language => language.id === value);
+
+const detectLanguage = (): Language => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLanguage(saved)) return saved;
+  } catch {
+    // 隐私模式等情况下 localStorage 不可用
+  }
+  const browser = typeof navigator === 'undefined' ? '' : navigator.language.toLowerCase();
+  if (browser.startsWith('ja')) return 'ja';
+  if (browser.startsWith('en')) return 'en';
+  return 'zh';
+};
+
+let currentLanguage: Language = detectLanguage();
+
+export const getLanguage = (): Language => currentLanguage;
+
+export const setLanguage = (language: Language) => {
+  currentLanguage = language;
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch {
+    // 保存失败只影响下次打开时的默认语言
+  }
+};
+
+export const getTranslations = (language: Language = currentLanguage): Translations => TRANSLATIONS[language];
+
+// 旧报告没有记录语言，按中文处理
+export const getPrompts = (language: Language = 'zh'): PromptSet => PROMPTS[language];
+
+// 替换 {name} 形式的占位符，缺少的值保留原样
+export const format = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
@@ -0,0 +1,49 @@
+import type zh from './zh';
+
+export type Language = 'zh' | 'en' | 'ja';
+
+// 以中文为基准：英文、日文必须提供完全相同的键
+export type Translations = typeof zh;
+
+// 发给模型的 Prompt。{name} 形式的占位符由 promptService 填入
+export interface PromptSet {
+  systemInstruction: string;   // 整体生成：报告 + 100 年 K 线
+  reportInstruction: string;   // 分段模式：命理报告
+  segmentInstruction: string;  // 分段模式：单步大运内的流年
+  monthlyInstruction: string;  // 流月
+  followUpInstruction: string; // 报告追问
+
+  // 用户 Prompt 片段
+  male: string;
+  female: string;
+  yang: string;
+  yin: string;
+  forward: string;
+  backward: string;
+  notProvided: string;
+  unknown: string;
+  pillarContext: string;
+  segmentRow: string;
+  fieldWarning: string;
+  fullAnalysis: string;
+  report: string;
+  segment: string;
+  monthly: string;
+  monthRow: string;
+  timelineRow: string;
+  followUp: string;
+  followUpFocus: string;
+  focusRow: string;
+  followUpHistory: string;
+  historyRow: string;
+  userRole: string;
+  assistantRole: string;
+
+  // 解读流派：附加在系统指令之后，{title} 为模板名称，{body} 为填好占位符的正文
+  templateSection: string;
+  schools: {
+    ziping: string;  // 子平正统
+    mangpai: string; // 盲派
+    concise: string; // 简明模式
+  };
+}
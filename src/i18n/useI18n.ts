@@ -0,0 +1,23 @@
+import React, { createContext, useContext } from 'react';
+import { Language, Translations } from './types';
+
+export interface I18nContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: Translations;
+}
+
+// 由 I18nProvider 提供
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const useI18n = (): I18nContextValue => {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside I18nProvider');
+  return value;
+};
+
+// 占位符替换为 React 节点，用于句中需要加粗或着色的片段
+export const formatParts = (template: string, values: Record<string, React.ReactNode>): React.ReactNode[] =>
+  template.split(/\{(\w+)\}/g).map((part, i) =>
+    React.createElement(React.Fragment, { key: i }, i % 2 === 1 ? values[part] ?? `{${part}}` : part),
+  );
@@ -0,0 +1,461 @@
+// 中文 (基准语言)。{name} 形式的占位符由调用方通过 format 填入
+
+const zh = {
+  locale: 'zh-CN',
+
+  common: {
+    age: '{age}岁',
+    yearGanZhi: '{year} {ganZhi}年',
+    unknown: '未知',
+    none: '无',
+    noData: '无数据',
+    empty: '空',
+    unnamed: '未命名',
+    close: '关闭',
+    cancel: '取消',
+    save: '保存',
+    retry: '重试',
+    good: '吉',
+    bad: '凶',
+    goodUp: '吉 ▲',
+    badDown: '凶 ▼',
+    filled: '(数据缺失，已补齐)',
+    self: '本人',
+    partner: '对方',
+    male: '乾造',
+    female: '坤造',
+    pillars: ['年柱', '月柱', '日柱', '时柱'],
+    listSeparator: '、',
+  },
+
+  app: {
+    documentTitle: '人生K线 | 八字命理可视化',
+    title: '人生K线',
+    language: '界面语言',
+    import: '导入',
+    importTitle: '导入导出的 JSON 报告',
+    brand: '潜学天下',
+    heroTitle: '洞悉命运起伏',
+    heroHighlight: '预见人生轨迹',
+    heroIntro: '结合{traditional}与{finance}将您的一生运势绘制成类似股票行情的K线图。助您发现人生牛市，规避风险熊市，把握关键转折点。',
+    heroTraditional: '传统八字命理',
+    heroFinance: '金融可视化技术',
+    tutorial: '使用教程',
+    apiTutorial: 'API教程',
+    generating: 'K线实时生成中…',
+    generatedYears: '已生成 {received}/{total} 年',
+    reportTitle: '命盘分析报告',
+    reportTitleNamed: '{name}的命盘分析报告',
+    share: '分享',
+    shareTitle: '生成包含报告内容的链接',
+    export: '导出',
+    exportTitle: '导出为 JSON 文件',
+    pdfTitle: '打印或另存为 PDF',
+    image: '图片',
+    imageTitle: '导出K线图为 PNG 图片',
+    restart: '← 重新排盘',
+    readOnlyNotice: '这是通过分享链接打开的只读报告，不会保存到本地历史记录；如需留存可点击「导出」。',
+    chartTitle: '流年大运走势图 (100年)',
+    chartLegend: '{green} 代表运势上涨（吉），{red} 代表运势下跌（凶）。(点击K线查看流年详批)',
+    greenCandle: '绿色K线',
+    redCandle: '红色K线',
+    corrections: '已按历法自动校正 {count} 处流年/大运字段',
+    correctionGanZhi: '流年',
+    correctionDaYun: '大运',
+    warnings: '数据校验发现 {count} 处问题，已自动修正',
+    footer: '{year} 人生K线项目 潜学天下 | 仅供娱乐与文化研究，请勿迷信',
+    attempt: '第 {attempt}/{max} 次尝试',
+    retrying: '{task}：{error}，{seconds} 秒后重试 ({attempt})',
+    requesting: '正在请求{task} ({attempt})',
+    apiKeyPrompt: '请输入 {provider} 的 API Key（仅在本次会话中使用，不会保存）：',
+    shareCopied: '分享链接已复制到剪贴板，报告内容全部在链接中，不经过服务器。',
+    sharePrompt: '复制下面的分享链接：',
+    shareFailed: '生成分享链接失败。',
+    shareOpenFailed: '分享链接无法打开。',
+    imageFailed: '图片导出失败。',
+    importFailed: '导入失败，请检查文件内容。',
+    renameFailed: '重命名失败，请重试。',
+    deleteFailed: '删除失败，请重试。',
+    generateFailed: '命理测算过程中发生了意外错误，请重试。',
+    busy: '当前服务器繁忙，使用的用户过多导致API堵塞，请择时再来',
+    monthlyReadOnly: '通过分享链接打开的报告只能查看已生成的流月。',
+    monthlyNeedsKey: '需要 API Key 才能请求流月。',
+    monthlyFailed: '流月生成失败，请重试。',
+    chatReadOnly: '通过分享链接打开的报告只能查看已有的追问记录。',
+    chatNeedsKey: '需要 API Key 才能追问。',
+    chatFailed: '追问失败，请重试。',
+    suggestionDrop: '为什么{age}岁运势大跌？',
+    suggestionStartup: '什么时候适合创业？',
+    suggestionDecade: '未来十年需要注意什么？',
+  },
+
+  form: {
+    title: '八字排盘',
+    subtitle: '输入出生时间自动排盘，或手动填写四柱与大运信息',
+    name: '姓名 (可选)',
+    namePlaceholder: '姓名',
+    gender: '性别',
+    male: '乾造 (男)',
+    female: '坤造 (女)',
+    pillarsSection: '出生时间与四柱干支 (必填)',
+    birthTime: '出生时间 (阳历，北京时间)',
+    pillarsHint: '按节气交接排年柱、月柱，23 点后按次日子时排日柱。四柱可手动修改。',
+    yearPillar: '年柱 (Year)',
+    monthPillar: '月柱 (Month)',
+    dayPillar: '日柱 (Day)',
+    hourPillar: '时柱 (Hour)',
+    edited: '已手动修改',
+    example: '如: {value}',
+    daYunSection: '大运排盘信息 (必填)',
+    startAge: '起运年龄 (虚岁)',
+    firstDaYun: '第一步大运',
+    direction: '当前大运排序规则：',
+    waitingYearPillar: '等待输入年柱...',
+    forward: '顺行 (阳男/阴女)',
+    backward: '逆行 (阴男/阳女)',
+    startAgeDetail: '出生后 {years} 年 {months} 个月 {days} 天起运',
+    apiSection: '模型接口设置 (必填)',
+    provider: '接口类型',
+    demoHint: '演示模式不调用任何接口，按四柱生成固定的示例曲线与占位文字，用于预览界面。',
+    model: '使用模型',
+    optional: ' (可选)',
+    timeout: '单次请求超时 (秒)',
+    retryHint: '遇到 429/5xx、网络错误或超时会自动重试，最多 {max} 次。',
+    mode: '生成方式',
+    single: '整体生成',
+    chunked: '按大运分段并行',
+    chunkedHint: '报告与每步大运分别请求后合并，适合输出长度有限的模型。',
+    stream: '流式输出 (边生成边绘制K线，需接口支持 stream)',
+    outputLanguage: '报告将以当前界面语言生成，干支保留中文。',
+    submitting: '大师推演中(3-5分钟)',
+    submit: '生成人生K线',
+    modelRequired: '请输入模型名称',
+    baseUrlRequired: '请输入 API Base URL',
+    apiKeyRequired: '请输入 API Key',
+    allowedModels: '本站可用的模型：{models}',
+    modelNotAllowed: '该模型不在本站允许使用的列表中',
+  },
+
+  templates: {
+    section: '解读流派',
+    builtIn: {
+      ziping: { name: '子平正统', description: '以月令定格局、取用神，十神生克为主线。' },
+      mangpai: { name: '盲派', description: '重做功与取象，断事具体，强调应期。' },
+      concise: { name: '简明模式', description: '每年一句话，报告只给结论。' },
+    },
+    customGroup: '自定义模板',
+    customDescription: '自定义模板 · 第 {version} 版',
+    edit: '编辑',
+    copy: '复制为自定义',
+    create: '新建',
+    name: '模板名称',
+    body: '模板正文',
+    bodyHint: '正文附加在系统指令之后，可使用占位符：',
+    copyName: '{name} (副本)',
+    save: '保存',
+    delete: '删除',
+    deleteConfirm: '确定删除模板「{name}」吗？',
+    nameRequired: '请输入模板名称',
+    bodyRequired: '请输入模板正文',
+    saveFailed: '模板保存失败，浏览器可能禁用了本地存储。',
+    used: '{name} v{version}',
+  },
+
+  providers: {
+    openai: 'OpenAI 兼容接口',
+    gemini: 'Google Gemini',
+    anthropic: 'Anthropic Claude',
+    ollama: 'Ollama (本地)',
+    demo: '演示模式 (离线，无需 API Key)',
+  },
+
+  analysis: {
+    summary: '命理总评',
+    industry: '事业行业',
+    wealth: '财富层级',
+    marriage: '婚姻情感',
+    health: '身体健康',
+    family: '六亲关系',
+    scoreGuide: '评分讲解',
+    scoreRange: '{from}-{to}分',
+    terrible: '极差',
+    poor: '差',
+    average: '一般',
+    good: '好',
+    excellent: '极好',
+    scoreNote: '注：命运还受环境和个人选择影响，八字趋势不能完全代表真实人生，命理学不是玄学，而是帮助我们在人生列车上做出更好选择的哲学工具。一命二运三风水 四积阴德五读书 六名七相八敬神 九遇贵人十养生。',
+  },
+
+  compatibility: {
+    title: '合盘分析 · {a} × {b}',
+    relations: '干支关系：',
+    relation: '{position} {pair}{kind}',
+    relationGood: '（吉）',
+    relationBad: '（不利）',
+    relationSeparator: '，',
+    noRelations: '日柱、年柱之间无明显合冲。',
+    positions: {
+      dayStem: '日干',
+      dayBranch: '日支',
+      yearBranch: '年支',
+    },
+    kinds: {
+      stemCombination: '相合',
+      combination: '六合',
+      triad: '三合',
+      clash: '相冲',
+      harm: '相害',
+    },
+    trend: '运势走势：',
+    trendText: '共同经历的 {overlap} 年中，同吉 {good} 年、同凶 {bad} 年，两人曲线相关系数 {correlation}，{trend}。',
+    trendSync: '起伏大体同步',
+    trendOpposite: '此起彼伏、互为补位',
+    trendIndependent: '各自独立、关联不大',
+    note: '合盘评分由日干相合、日支与年支的合冲刑害以及双方流年走势的同步程度综合得出，仅供参考。',
+  },
+
+  turning: {
+    title: '关键转折年份',
+    peaks: '阶段高点',
+    troughs: '阶段低点',
+    phases: '人生牛市 / 熊市',
+    drops: '单年大跌',
+    none: '无明显特征',
+    year: '{year} {ganZhi}年（{age}岁）',
+    high: '最高 {value}',
+    low: '最低 {value}',
+    drop: '下跌 {value}',
+    bull: '牛市',
+    bear: '熊市',
+    phaseRange: '{fromYear}-{toYear}（{fromAge}-{toAge}岁）',
+    note: '高低点取前后五年内的极值，连续四年以上同为吉或同为凶视为一段牛市或熊市，均由K线数据本地计算得出。',
+    peakMarker: '顶',
+    troughMarker: '底',
+    dropMarker: '急跌-{value}',
+    toggle: '转折标记',
+  },
+
+  chart: {
+    title: '人生流年大运K线图',
+    up: '吉运 (涨)',
+    down: '凶运 (跌)',
+    ageAxis: '年龄',
+    scoreAxis: '运势分',
+    thisYear: '今年',
+    daYun: '大运：{daYun}',
+    open: '开盘',
+    close: '收盘',
+    high: '最高',
+    low: '最低',
+    bollUpper: '布林上轨',
+    bollMiddle: '布林中轨',
+    bollLower: '布林下轨',
+    indicators: {
+      ma5: 'MA5',
+      ma10: 'MA10',
+      ma20: 'MA20',
+      boll: '布林带',
+      daYunAvg: '大运均线',
+      scoreChange: '分数变化',
+    },
+    dimensions: '分项',
+    scoreChange: '{year} 分数变化 {value}',
+    zoomedRange: '{from}-{to}岁 · 拖动平移',
+    zoomHint: '点击大运标签可放大',
+    zoomIn: '放大',
+    zoomOut: '缩小',
+    showAll: '显示全部',
+    pinnedHint: '流年详批 · 可用 ← → 键切换年份',
+    viewMonthly: '查看流月',
+    prevYear: '上一年',
+    nextYear: '下一年',
+  },
+
+  dimensions: {
+    industry: '事业',
+    wealth: '财富',
+    marriage: '婚姻',
+    health: '健康',
+  },
+
+  outlook: {
+    title: '未来十年展望',
+    titleShort: '未来 {count} 年展望',
+    range: '{fromYear}-{toYear} · {fromAge}-{toAge}岁',
+    up: '整体上行',
+    down: '整体下行',
+    flat: '大体平稳',
+    slope: '{value}/年',
+    yearTitle: '{year} {ganZhi} · {daYun} · {score}分',
+    best: '最好：{year} {ganZhi}年（{age}岁）{score}分',
+    worst: '最差：{year} {ganZhi}年（{age}岁）{score}分',
+    daYunChange: '{year}年（{age}岁）交入 {daYun} 运',
+    noDaYunChange: '十年内无大运交接，仍行 {daYun} 运',
+    current: '当前',
+  },
+
+  comparison: {
+    title: '双人对比',
+    select: '选择历史记录中的另一份报告…',
+    clear: '取消对比',
+    hint: '选择另一份报告，按公历年份叠加两人的运势曲线，并给出同吉同凶年份与合盘分析。',
+    hintEmpty: '历史记录中还没有其他报告。先为对方排盘生成一份报告，再回到这里对比。',
+    yearTitle: '{year} {ganZhi}年',
+    bothGood: '同吉 {count} 年 · 适合共同发力',
+    bothBad: '同凶 {count} 年 · 宜相互扶持、稳守',
+    divergent: '走势相背 · 一方可补另一方',
+  },
+
+  monthly: {
+    title: '{year} {ganZhi}年 · 流月K线',
+    subtitle: '{age}岁 · {daYun}运',
+    loading: '正在生成流月…',
+    month: '{ganZhi}月',
+    startDate: '{date} 交节',
+    since: '{date} 起',
+    ohlc: '开 {open} · 收 {close} · 高 {high} · 低 {low}',
+    footer: '流月以节气为界，干支与交节日期按历法排定 · {model} · {time}',
+    fixed: ' · 已自动修正 {count} 处数据问题',
+  },
+
+  chat: {
+    title: '追问命理师',
+    clear: '清空对话',
+    clearConfirm: '清空这份报告的全部追问记录？',
+    empty: '对报告有疑问可以直接追问，回答会结合命盘与百年K线，提到的年份会在K线图上高亮。',
+    highlight: '图上标出',
+    highlightTitle: '在K线图上高亮这些年份',
+    thinking: '命理师正在思考…',
+    placeholder: '例如：为什么38岁大跌？什么时候适合创业？',
+    send: '发送',
+  },
+
+  history: {
+    title: '历史记录',
+    deleteConfirm: '确定删除「{title}」吗？删除后无法恢复。',
+    open: '打开',
+    rename: '重命名',
+    delete: '删除',
+  },
+
+  print: {
+    title: '人生K线 · 命盘分析报告',
+    birth: '出生：{date} {time}',
+    createdAt: '生成时间：{time}',
+    model: '模型：{model}',
+    template: '解读流派：{template}',
+    analysisTitle: '命理详批',
+    appendixTitle: '附录：流年详批',
+    year: '年份',
+    age: '年龄',
+    daYun: '大运',
+    score: '分数',
+    reason: '详批',
+    filled: '（数据缺失，已补齐）',
+  },
+
+  // 服务层的报错与生成的文字
+  services: {
+    cancelled: '已取消本次生成。',
+    modelNotAllowed: '本站暂不支持模型 {model}，可用的模型：{models}',
+    apiKeyMissing: '请在表单中填写有效的 API Key',
+    baseUrlMissing: '请在表单中填写有效的 API Base URL',
+    apiFailed: 'API 请求失败: {status} - {text}',
+    emptyResponse: '模型未返回任何内容。',
+    timeout: '请求超时 ({seconds} 秒)',
+    network: '网络错误: {message}',
+    invalidJson: '模型返回的 JSON 无法解析，可能因输出过长被截断，可尝试分段生成模式。',
+    streamUnsupported: '当前环境不支持流式读取响应。',
+    streamError: 'API 流式响应错误: {message}',
+    demoNoRequest: '演示模式不发起网络请求。',
+    invalidDaYun: '无法排出大运，请检查月柱或第一步大运是否为合法干支',
+    segmentFailed: '{from}-{to} 岁 ({daYun}) 生成失败：{message}',
+    invalidReport: '模型返回的命理报告格式不正确。',
+    missingAnswer: '模型返回的数据格式不正确（缺失 answer）。',
+    taskFull: '100 年流年K线与命理报告',
+    taskReport: '命理报告',
+    taskSegment: '{from}-{to} 岁流年',
+    taskMonthly: '{year} 年流月',
+    taskFollowUp: '追问回答',
+    indexedDbUnsupported: '当前浏览器不支持 IndexedDB，无法保存历史记录。',
+    defaultTitle: '{name} · {pillars} · {date}',
+    importFailed: '导入失败：{reason}',
+    importNoVersion: '文件缺少有效的版本号。',
+    importWrongFormat: '不是人生K线导出的报告文件。',
+    importTooNew: '文件版本 (v{version}) 高于当前支持的版本 (v{supported})，请升级后再试。',
+    importNoMigration: '无法从 v{version} 升级文件。',
+    importNoResult: '文件中的报告缺少 chartData 或 analysis。',
+    importInvalidJson: '文件不是有效的 JSON。',
+    importNoReading: '文件中缺少报告内容。',
+    importedTitle: '导入 · {pillars}',
+    unknownPillars: '未知四柱',
+    importedReading: '导入的报告',
+    shareTooLarge: '分享链接内容过大，无法打开。',
+    compressionUnsupported: '当前浏览器不支持分享链接所需的压缩功能，请升级浏览器。',
+    shareOverLimit: '报告内容过多，压缩后仍有 {size}K 字符，超出分享链接上限，请改用导出文件。',
+    shareCorrupted: '分享链接已损坏或不完整，请确认复制了完整的链接。',
+    shareInvalid: '分享链接中的报告无效：{message}',
+    chartImageFailed: '图表渲染为图片失败。',
+    canvasUnsupported: '当前浏览器不支持 canvas，无法导出图片。',
+    imageFailed: '图片导出失败。',
+    pngTitle: '人生流年大运K线图',
+    pngTitleNamed: '{name}的人生流年大运K线图',
+    pngBazi: '八字：{pillars}',
+  },
+
+  // 数据校验的提示与补齐时写入的文字
+  validation: {
+    coercedNumber: '{path} 为字符串 "{value}"，已转换为数字',
+    dimensionsNotObject: '{age} 岁的流年分项不是对象，已忽略',
+    dimensionOutOfRange: '{age} 岁的 {key} 分项超出 0-100，已截断',
+    candleMissing: '{label}缺少开盘/收盘值，已按相邻数据估算',
+    candleOutOfRange: '{label}的数值超出 0-100，已截断',
+    ohlcAdjusted: '{label}的最高/最低值与开收盘矛盾，已修正',
+    ageLabel: '{age} 岁',
+    monthLabel: '{ganZhi}月',
+    yearMismatch: '{age} 岁对应 {expected} 年，模型给出 {actual}，已更正',
+    missingReason: '{age} 岁缺少流年详批',
+    filledYear: '模型未返回该年数据，已按相邻年份补齐。',
+    invalidPoint: '第 {index} 个数据点不是对象，已丢弃',
+    invalidAge: '第 {index} 个数据点年龄无效 ({age})，已丢弃',
+    duplicateAge: '{age} 岁重复出现，仅保留第一条',
+    missingAges: '缺少 {count} 个年龄的数据 ({ages})，已补齐并标记',
+    missingBazi: '模型未返回有效的四柱，已使用输入的四柱',
+    missingAnalysis: '缺少 {field} 分析内容',
+    missingScore: '缺少 {field}，按 {score} 分显示',
+    scoreOutOfRange: '{field} = {value} 超出 0-10，已截断',
+    missingChartPoints: '模型返回的数据格式不正确（缺失 chartPoints）。',
+    emptyChartPoints: '模型返回的 chartPoints 为空，无法绘制K线。',
+    missingMonthlyPoints: '模型返回的数据格式不正确（缺失 monthlyPoints）。',
+    invalidMonth: '第 {index} 个流月数据无效，已丢弃',
+    duplicateMonth: '第 {month} 个月重复出现，仅保留第一条',
+    emptyMonthlyPoints: '模型返回的 monthlyPoints 为空，无法绘制流月K线。',
+    filledMonth: '模型未返回该月数据，已按相邻月份补齐。',
+    missingMonthReason: '{ganZhi}月缺少流月详批',
+    missingMonths: '缺少 {count} 个月的数据 ({months})，已补齐并标记',
+  },
+
+  // 演示模式的占位文字，按报告语言生成
+  demo: {
+    reasonSuffix: '（演示数据，仅用于预览界面效果）',
+    yearReason: '{year}年{ganZhi}，行{daYun}运，{trend}。{suffix}',
+    yearUp: '运势上扬，宜积极进取',
+    yearDown: '运势回落，宜守成避险',
+    summary: '{gender} {pillars}。这是演示模式生成的占位总评，用于预览报告排版，不代表真实批断。',
+    industry: '演示数据：事业分析占位文本。',
+    wealth: '演示数据：财富分析占位文本。',
+    marriage: '演示数据：婚姻分析占位文本。',
+    health: '演示数据：健康分析占位文本。',
+    family: '演示数据：六亲分析占位文本。',
+    monthReason: '{ganZhi}月，{trend}。{suffix}',
+    monthUp: '诸事较顺，可把握时机',
+    monthDown: '阻滞较多，宜稳守为上',
+    answerIntro: '演示模式不会调用模型，以下按K线数据给出参考：',
+    answerLine: '{year}年 ({age}岁，{ganZhi}) 收盘 {close}，{trend}。',
+    answerUp: '运势上扬',
+    answerDown: '运势回落',
+    answerNone: '报告中没有找到相关年份。',
+  },
+};
+
+export default zh;
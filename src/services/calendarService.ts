@@ -0,0 +1,178 @@
+import { HEAVENLY_STEMS, EARTHLY_BRANCHES } from "../constants";
+
+// 本地历法引擎：根据阳历出生时间排出四柱
+// 年柱以立春为界，月柱以十二节为界，日柱在子时 (23:00) 换日
+
+export interface BirthMoment {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+  hour: number;   // 0-23
+  minute: number;
+}
+
+// 流月：某个干支年内以"节"划分的一个月
+export interface MonthPillar {
+  order: number;       // 0 = 寅月 (立春起)，11 = 丑月 (小寒起，已是次年公历一月)
+  ganZhi: string;
+  start: BirthMoment;  // 交节时刻 (北京时间)
+}
+
+export interface FourPillars {
+  yearPillar: string;
+  monthPillar: string;
+  dayPillar: string;
+  hourPillar: string;
+}
+
+// 默认按北京时间 (UTC+8) 解释出生时间
+export const CHINA_UTC_OFFSET = 8;
+
+const MS_PER_DAY = 86400000;
+const UNIX_EPOCH_JD = 2440587.5;
+const J2000 = 2451545.0;
+export const TROPICAL_YEAR = 365.2422;
+// 1970-01-01 为辛巳日 (六十甲子序号 17)
+const UNIX_EPOCH_DAY_INDEX = 17;
+// 立春对应的太阳黄经
+const LICHUN_LONGITUDE = 315;
+
+const normalizeDegrees = (deg: number): number => ((deg % 360) + 360) % 360;
+const toRadians = (deg: number): number => (deg * Math.PI) / 180;
+
+export const ganZhiFromIndex = (index: number): string => {
+  const i = ((index % 60) + 60) % 60;
+  return HEAVENLY_STEMS[i % 10] + EARTHLY_BRANCHES[i % 12];
+};
+
+// 干支 -> 六十甲子序号，非法干支返回 -1
+export const ganZhiIndex = (ganZhi: string): number => {
+  const text = (ganZhi || '').trim();
+  const stem = HEAVENLY_STEMS.indexOf(text.charAt(0));
+  const branch = EARTHLY_BRANCHES.indexOf(text.charAt(1));
+  if (stem < 0 || branch < 0 || stem % 2 !== branch % 2) return -1;
+  return (((6 * stem - 5 * branch) % 60) + 60) % 60;
+};
+
+// 立春后的干支纪年
+export const getYearGanZhi = (year: number): string => ganZhiFromIndex(year - 4);
+
+export const toJulianDay = (moment: BirthMoment, utcOffset: number = CHINA_UTC_OFFSET): number => {
+  const utcMs = Date.UTC(moment.year, moment.month - 1, moment.day, moment.hour - utcOffset, moment.minute);
+  return utcMs / MS_PER_DAY + UNIX_EPOCH_JD;
+};
+
+export const fromJulianDay = (jd: number, utcOffset: number = CHINA_UTC_OFFSET): BirthMoment => {
+  const local = new Date((jd - UNIX_EPOCH_JD) * MS_PER_DAY + utcOffset * 3600000);
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+    hour: local.getUTCHours(),
+    minute: local.getUTCMinutes(),
+  };
+};
+
+// 太阳视黄经 (Meeus 低精度算法，误差约 0.01°，即十几分钟)
+export const getSunLongitude = (jd: number): number => {
+  const t = (jd - J2000) / 36525;
+  const l0 = 280.46646 + 36000.76983 * t + 0.0003032 * t * t;
+  const m = toRadians(357.52911 + 35999.05029 * t - 0.0001537 * t * t);
+  const c = (1.914602 - 0.004817 * t - 0.000014 * t * t) * Math.sin(m)
+    + (0.019993 - 0.000101 * t) * Math.sin(2 * m)
+    + 0.000289 * Math.sin(3 * m);
+  const omega = toRadians(125.04 - 1934.136 * t);
+  return normalizeDegrees(l0 + c - 0.00569 - 0.00478 * Math.sin(omega));
+};
+
+// 求太阳到达指定黄经的时刻 (儒略日)，approxJD 需在目标时刻前后半年内
+export const findSolarTermJD = (longitude: number, approxJD: number): number => {
+  let jd = approxJD;
+  for (let i = 0; i < 20; i++) {
+    const diff = normalizeDegrees(longitude - getSunLongitude(jd) + 180) - 180;
+    const step = (diff / 360) * TROPICAL_YEAR;
+    jd += step;
+    if (Math.abs(step) < 1e-6) break;
+  }
+  return jd;
+};
+
+// 出生时刻前后最近的两个"节" (立春、惊蛰、清明……小寒)，即月柱交接点
+export const findAdjacentJieJD = (jd: number): { previous: number; next: number } => {
+  const sinceJie = normalizeDegrees(getSunLongitude(jd) - LICHUN_LONGITUDE) % 30;
+  const previousLongitude = normalizeDegrees(getSunLongitude(jd) - sinceJie);
+  const previous = findSolarTermJD(previousLongitude, jd - (sinceJie / 360) * TROPICAL_YEAR);
+  const next = findSolarTermJD(normalizeDegrees(previousLongitude + 30), previous + TROPICAL_YEAR / 12);
+  return { previous, next };
+};
+
+export const formatDate = ({ year, month, day }: BirthMoment): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// 五虎遁：甲己之年丙作首
+const monthGanZhi = (yearStem: number, monthOrder: number): string =>
+  HEAVENLY_STEMS[(yearStem * 2 + 2 + monthOrder) % 10] + EARTHLY_BRANCHES[(monthOrder + 2) % 12];
+
+// 干支纪年 year (立春起) 的十二个流月及交节时刻
+export const getMonthPillars = (year: number): MonthPillar[] => {
+  const yearStem = (((year - 4) % 10) + 10) % 10;
+  const lichunApprox = toJulianDay({ year, month: 2, day: 4, hour: 12, minute: 0 });
+  return Array.from({ length: 12 }, (_, order) => ({
+    order,
+    ganZhi: monthGanZhi(yearStem, order),
+    start: fromJulianDay(findSolarTermJD(
+      normalizeDegrees(LICHUN_LONGITUDE + order * 30),
+      lichunApprox + (order * TROPICAL_YEAR) / 12,
+    )),
+  }));
+};
+
+export const parseBirthMoment = (birthDate: string, birthTime: string): BirthMoment | null => {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec((birthDate || '').trim());
+  const timeMatch = /^(\d{1,2}):(\d{2})$/.exec((birthTime || '').trim());
+  if (!dateMatch || !timeMatch) return null;
+
+  const moment: BirthMoment = {
+    year: Number(dateMatch[1]),
+    month: Number(dateMatch[2]),
+    day: Number(dateMatch[3]),
+    hour: Number(timeMatch[1]),
+    minute: Number(timeMatch[2]),
+  };
+
+  // 拒绝 2 月 30 日之类的非法日期
+  const check = new Date(Date.UTC(moment.year, moment.month - 1, moment.day));
+  if (check.getUTCMonth() !== moment.month - 1 || check.getUTCDate() !== moment.day) return null;
+  if (moment.hour > 23 || moment.minute > 59) return null;
+
+  return moment;
+};
+
+export const calculateFourPillars = (moment: BirthMoment, utcOffset: number = CHINA_UTC_OFFSET): FourPillars => {
+  const sunLongitude = getSunLongitude(toJulianDay(moment, utcOffset));
+
+  // 月序：0 = 寅月 (立春起)，11 = 丑月 (小寒起)
+  const monthOrder = Math.floor(normalizeDegrees(sunLongitude - LICHUN_LONGITUDE) / 30);
+
+  // 年初尚在子/丑月，说明未过立春，仍属上一年
+  const sexagenaryYear = moment.month <= 2 && monthOrder >= 10 ? moment.year - 1 : moment.year;
+  const yearIndex = sexagenaryYear - 4;
+  const yearStem = ((yearIndex % 10) + 10) % 10;
+
+  // 子时换日：23 点后按次日排日柱
+  const dayOffset = moment.hour >= 23 ? 1 : 0;
+  const epochDays = Math.floor(Date.UTC(moment.year, moment.month - 1, moment.day) / MS_PER_DAY) + dayOffset;
+  const dayIndex = epochDays + UNIX_EPOCH_DAY_INDEX;
+  const dayStem = ((dayIndex % 10) + 10) % 10;
+
+  // 五鼠遁：甲己还加甲
+  const hourBranch = Math.floor((moment.hour + 1) / 2) % 12;
+  const hourStem = (dayStem * 2 + hourBranch) % 10;
+
+  return {
+    yearPillar: ganZhiFromIndex(yearIndex),
+    monthPillar: monthGanZhi(yearStem, monthOrder),
+    dayPillar: ganZhiFromIndex(dayIndex),
+    hourPillar: HEAVENLY_STEMS[hourStem] + EARTHLY_BRANCHES[hourBranch],
+  };
+};
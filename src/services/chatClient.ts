@@ -0,0 +1,217 @@
+import { LLMProvider, RequestStatus } from "../types";
+import { readResponseStream } from "./streamService";
+import { ChatEndpoint, getProvider } from "./providers";
+import { format, getTranslations } from "../i18n";
+
+// 模型接口调用，供整体生成与分段生成共用。请求格式由 providers 下的适配器决定；
+// 每次尝试单独计时；429/5xx、网络错误与超时按指数退避自动重试，用户取消则立即终止。
+
+export type { ChatEndpoint } from "./providers";
+
+export const DEFAULT_TIMEOUT_SECONDS = 300;
+export const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export interface ChatRequest {
+  task: string;       // 用于状态提示，如 "命理报告"、"8-17 岁"
+  systemPrompt: string;
+  userPrompt: string;
+  stream?: boolean;
+  onDelta?: (delta: string, attempt: number) => void; // 仅流式模式下回调，重试后 attempt 递增
+}
+
+// 同一次生成中所有请求共享的取消信号、超时与状态回调
+export interface RequestControl {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxRetries?: number;
+  onStatus?: (status: RequestStatus) => void;
+}
+
+// 用户主动取消
+export class RequestCancelledError extends Error {
+  constructor() {
+    super(getTranslations().services.cancelled);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// 携带是否值得重试的请求错误
+class ChatRequestError extends Error {
+  constructor(message: string, readonly retryable: boolean, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'ChatRequestError';
+  }
+}
+
+export const resolveChatEndpoint = (
+  providerId: LLMProvider,
+  apiBaseUrl: string,
+  apiKey: string,
+  modelName: string,
+): ChatEndpoint => {
+  const provider = getProvider(providerId);
+
+  if (provider.requiresApiKey && (!apiKey || !apiKey.trim())) {
+    throw new Error(getTranslations().services.apiKeyMissing);
+  }
+  if (!apiBaseUrl || !apiBaseUrl.trim()) {
+    throw new Error(getTranslations().services.baseUrlMissing);
+  }
+
+  return {
+    provider: provider.id,
+    // Remove trailing slash if present
+    baseUrl: apiBaseUrl.replace(/\/+$/, ""),
+    apiKey: apiKey.trim(),
+    // Use user provided model name or fallback
+    model: modelName && modelName.trim() ? modelName.trim() : provider.defaultModel,
+  };
+};
+
+const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+const parseRetryAfter = (response: Response): number | undefined => {
+  const header = response.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const getRetryDelay = (attempt: number, error: ChatRequestError): number => {
+  const backoff = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 500;
+  return Math.min(MAX_RETRY_DELAY_MS, Math.max(backoff, error.retryAfterMs ?? 0));
+};
+
+// 可被取消的等待
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const attemptChatCompletion = async (
+  endpoint: ChatEndpoint,
+  request: ChatRequest,
+  control: RequestControl,
+  attempt: number,
+): Promise<string> => {
+  // 单次尝试的控制器：用户取消或超时都会中断 fetch 与流式读取
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  control.signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = control.timeoutMs
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, control.timeoutMs)
+    : undefined;
+
+  const provider = getProvider(endpoint.provider);
+  const { url, headers, body } = provider.buildRequest(endpoint, request);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errText = await response.text();
+      throw new ChatRequestError(
+        format(getTranslations().services.apiFailed, { status: response.status, text: errText }),
+        isRetryableStatus(response.status),
+        parseRetryAfter(response),
+      );
+    }
+
+    // 预填充的前缀不在模型输出里，先补上
+    const prefix = provider.responsePrefix ?? '';
+    if (prefix && request.stream) request.onDelta?.(prefix, attempt);
+
+    let content: string | undefined;
+    if (request.stream) {
+      content = await readResponseStream(
+        response,
+        provider.streamFormat,
+        provider.extractStreamDelta,
+        (delta) => request.onDelta?.(delta, attempt),
+      );
+    } else {
+      content = provider.extractContent(await response.json());
+    }
+
+    if (!content) {
+      throw new ChatRequestError(getTranslations().services.emptyResponse, false);
+    }
+    return prefix + content;
+  } catch (error) {
+    if (control.signal?.aborted) throw new RequestCancelledError();
+    if (timedOut) {
+      throw new ChatRequestError(
+        format(getTranslations().services.timeout, { seconds: Math.round((control.timeoutMs ?? 0) / 1000) }),
+        true,
+      );
+    }
+    if (error instanceof ChatRequestError) throw error;
+    // fetch 本身抛出的 TypeError 即网络错误
+    if (error instanceof TypeError) {
+      throw new ChatRequestError(format(getTranslations().services.network, { message: error.message }), true);
+    }
+    throw error;
+  } finally {
+    if (timer) clearTimeout(timer);
+    control.signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+export const requestChatCompletion = async (
+  endpoint: ChatEndpoint,
+  request: ChatRequest,
+  control: RequestControl = {},
+): Promise<string> => {
+  const maxAttempts = (control.maxRetries ?? MAX_RETRIES) + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    if (control.signal?.aborted) throw new RequestCancelledError();
+    control.onStatus?.({ task: request.task, attempt, maxAttempts, state: 'requesting' });
+
+    try {
+      return await attemptChatCompletion(endpoint, request, control, attempt);
+    } catch (error) {
+      if (!(error instanceof ChatRequestError) || !error.retryable || attempt >= maxAttempts) throw error;
+
+      const delay = getRetryDelay(attempt, error);
+      control.onStatus?.({
+        task: request.task, attempt, maxAttempts, state: 'retrying',
+        retryDelayMs: delay, lastError: error.message,
+      });
+      await sleep(delay, control.signal);
+    }
+  }
+};
+
+export const parseJsonContent = (content: string): unknown => {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error(getTranslations().services.invalidJson);
+  }
+};
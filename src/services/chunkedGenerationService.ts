@@ -0,0 +1,154 @@
+import { UserInput, KLinePoint, PromptTemplateRef, ValidationWarning } from "../types";
+import {
+  ChatEndpoint,
+  RequestControl,
+  RequestCancelledError,
+  requestChatCompletion,
+  parseJsonContent,
+} from "./chatClient";
+import { DaYunPlan, DaYunSegment, buildDaYunSegments } from "./daYunService";
+import { buildReportPrompt, buildSegmentPrompt } from "./promptService";
+import { applyTemplate } from "./promptTemplateService";
+import { isRecord } from "./validationService";
+import { format, getPrompts, getTranslations } from "../i18n";
+
+// 分段生成：报告一个请求，每步大运一个请求，限流并发后合并成一份结果，
+// 避免一次输出 100 年触发模型的输出长度上限
+
+export const CHUNK_CONCURRENCY = 3;
+
+export interface ChunkedRawResult {
+  data: Record<string, unknown>;  // 与整体生成同构：报告字段 + chartPoints
+  warnings: ValidationWarning[];
+  boundaryAges: number[];          // 各段的起始年龄 (首段除外)
+}
+
+// 以固定并发数依次执行任务，结果顺序与输入一致；signal 中止后不再领取新任务
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+const requestSegment = async (
+  endpoint: ChatEndpoint,
+  input: UserInput,
+  plan: DaYunPlan,
+  segment: DaYunSegment,
+  template: PromptTemplateRef,
+  control: RequestControl,
+): Promise<Record<string, unknown>[]> => {
+  const content = await requestChatCompletion(endpoint, {
+    task: format(getTranslations().services.taskSegment, { from: segment.fromAge, to: segment.toAge }),
+    systemPrompt: applyTemplate(getPrompts(input.language).segmentInstruction, input, template),
+    userPrompt: buildSegmentPrompt(input, plan, segment),
+  }, control);
+  const data = parseJsonContent(content);
+  const points = isRecord(data) && Array.isArray(data.chartPoints) ? data.chartPoints : [];
+
+  // 模型越界输出的年份交给相邻段，不在这里重复
+  return points.filter((point): point is Record<string, unknown> => {
+    if (!isRecord(point)) return false;
+    const age = Number(point.age);
+    return age >= segment.fromAge && age <= segment.toAge;
+  });
+};
+
+export const generateChunkedRaw = async (
+  endpoint: ChatEndpoint,
+  input: UserInput,
+  plan: DaYunPlan,
+  template: PromptTemplateRef,
+  control: RequestControl,
+  onSegmentDone?: (rawPoints: Record<string, unknown>[]) => void,
+): Promise<ChunkedRawResult> => {
+  const segments = buildDaYunSegments(plan);
+  const warnings: ValidationWarning[] = [];
+  const received: Record<string, unknown>[] = [];
+
+  // 报告失败时整体已无结果，分段请求随之中止，不再消耗额度，也不再推送预览
+  const segmentController = new AbortController();
+  const abortSegments = () => segmentController.abort();
+  if (control.signal?.aborted) abortSegments();
+  control.signal?.addEventListener('abort', abortSegments, { once: true });
+  const segmentControl: RequestControl = { ...control, signal: segmentController.signal };
+
+  const reportPromise = requestChatCompletion(endpoint, {
+    task: getTranslations().services.taskReport,
+    systemPrompt: applyTemplate(getPrompts(input.language).reportInstruction, input, template),
+    userPrompt: buildReportPrompt(input, plan),
+  }, control).then(parseJsonContent);
+  reportPromise.catch(abortSegments);
+
+  // 单段失败只记 warning，缺的年份由校验阶段补齐；取消则整体终止
+  const segmentsPromise = mapWithConcurrency(segments, CHUNK_CONCURRENCY, async (segment) => {
+    try {
+      const points = await requestSegment(endpoint, input, plan, segment, template, segmentControl);
+      if (segmentController.signal.aborted) return points;
+      received.push(...points);
+      onSegmentDone?.([...received]);
+      return points;
+    } catch (error) {
+      if (error instanceof RequestCancelledError) throw error;
+      console.error(`Segment ${segment.fromAge}-${segment.toAge} failed:`, error);
+      warnings.push({
+        code: 'SEGMENT_FAILED',
+        path: 'chartPoints',
+        message: format(getTranslations().services.segmentFailed, {
+          from: segment.fromAge,
+          to: segment.toAge,
+          daYun: segment.daYun,
+          message: (error as Error).message,
+        }),
+      });
+      return [];
+    }
+  }, segmentController.signal);
+
+  let report: unknown;
+  let segmentPoints: Record<string, unknown>[][];
+  try {
+    [report, segmentPoints] = await Promise.all([reportPromise, segmentsPromise]);
+  } finally {
+    control.signal?.removeEventListener('abort', abortSegments);
+  }
+  if (!isRecord(report)) {
+    throw new Error(getTranslations().services.invalidReport);
+  }
+
+  return {
+    data: { ...report, chartPoints: segmentPoints.flat() },
+    warnings,
+    boundaryAges: segments.slice(1).map(segment => segment.fromAge),
+  };
+};
+
+// 各段独立生成，段首开盘价与上一段收盘价未必衔接，这里统一接上
+export const stitchSegmentBoundaries = (chartData: KLinePoint[], boundaryAges: number[]): KLinePoint[] => {
+  const boundaries = new Set(boundaryAges);
+  return chartData.map((point, i) => {
+    const previous = chartData[i - 1];
+    if (!previous || !boundaries.has(point.age)) return point;
+    const open = previous.close;
+    return {
+      ...point,
+      open,
+      high: Math.max(point.high, open, point.close),
+      low: Math.min(point.low, open, point.close),
+    };
+  });
+};
@@ -0,0 +1,141 @@
+import { KLinePoint, SavedReading } from "../types";
+
+// 双人对比：按公历年份对齐两份报告，找出同吉 / 同凶 / 走势相背的年份，
+// 再结合日柱、年柱的干支关系给出合盘评分。全部在本地计算，不调用接口。
+
+const STEM_COMBINATIONS = ['甲己', '乙庚', '丙辛', '丁壬', '戊癸'];
+const BRANCH_COMBINATIONS = ['子丑', '寅亥', '卯戌', '辰酉', '巳申', '午未'];
+const BRANCH_CLASHES = ['子午', '丑未', '寅申', '卯酉', '辰戌', '巳亥'];
+const BRANCH_HARMS = ['子未', '丑午', '寅巳', '卯辰', '申亥', '酉戌'];
+const BRANCH_TRIADS = ['申子辰', '亥卯未', '寅午戌', '巳酉丑'];
+
+const TOP_DIVERGENT_YEARS = 5;
+const BASE_SCORE = 5;
+
+export interface ComparisonYear {
+  year: number;
+  a?: KLinePoint;
+  b?: KLinePoint;
+}
+
+export type RelationPosition = 'dayStem' | 'dayBranch' | 'yearBranch';
+export type RelationKind = 'stemCombination' | 'combination' | 'triad' | 'clash' | 'harm';
+
+// 如 日干 甲己 相合；展示文字由界面按语言拼装
+export interface PillarRelation {
+  position: RelationPosition;
+  pair: string;   // 两人的干或支，如 "甲己"
+  kind: RelationKind;
+  effect: number; // 对合盘评分的加减
+}
+
+export interface ComparisonSummary {
+  years: ComparisonYear[];    // 两人年份的并集，按年份排序
+  overlapCount: number;       // 两人都有数据的年份数
+  bothGood: ComparisonYear[]; // 同为吉 (收盘 ≥ 开盘)
+  bothBad: ComparisonYear[];  // 同为凶
+  divergent: ComparisonYear[]; // 一吉一凶且分差最大的几年
+  correlation: number;        // 两人逐年收盘的相关系数 (-1 ~ 1)
+  relations: PillarRelation[];
+  score: number;              // 合盘评分 0-10
+}
+
+export const getPersonName = (reading: SavedReading, fallback: string): string =>
+  reading.input.name || fallback;
+
+export const isGoodYear = (point: KLinePoint): boolean => point.close >= point.open;
+
+const matchesPair = (pairs: string[], x: string, y: string): boolean =>
+  pairs.some(pair => pair === x + y || pair === y + x);
+
+const matchesTriad = (x: string, y: string): boolean =>
+  x !== y && BRANCH_TRIADS.some(triad => triad.includes(x) && triad.includes(y));
+
+// 两个地支之间的关系 (合、三合、冲、害)
+const describeBranches = (position: RelationPosition, x: string, y: string): PillarRelation[] => {
+  if (!x || !y) return [];
+  const pair = x + y;
+  if (matchesPair(BRANCH_COMBINATIONS, x, y)) return [{ position, pair, kind: 'combination', effect: 1.5 }];
+  if (matchesTriad(x, y)) return [{ position, pair, kind: 'triad', effect: 1 }];
+  if (matchesPair(BRANCH_CLASHES, x, y)) return [{ position, pair, kind: 'clash', effect: -1.5 }];
+  if (matchesPair(BRANCH_HARMS, x, y)) return [{ position, pair, kind: 'harm', effect: -1 }];
+  return [];
+};
+
+const findPillarRelations = (a: SavedReading, b: SavedReading): PillarRelation[] => {
+  const [yearA, , dayA] = a.result.analysis.bazi;
+  const [yearB, , dayB] = b.result.analysis.bazi;
+  const relations: PillarRelation[] = [];
+
+  const stemA = dayA?.charAt(0) ?? '';
+  const stemB = dayB?.charAt(0) ?? '';
+  if (stemA && stemB && matchesPair(STEM_COMBINATIONS, stemA, stemB)) {
+    relations.push({ position: 'dayStem', pair: stemA + stemB, kind: 'stemCombination', effect: 1.5 });
+  }
+
+  relations.push(...describeBranches('dayBranch', dayA?.charAt(1) ?? '', dayB?.charAt(1) ?? ''));
+  // 年支 (生肖) 影响较小，减半计分
+  relations.push(
+    ...describeBranches('yearBranch', yearA?.charAt(1) ?? '', yearB?.charAt(1) ?? '')
+      .map(relation => ({ ...relation, effect: relation.effect / 2 })),
+  );
+  return relations;
+};
+
+const pearson = (xs: number[], ys: number[]): number => {
+  const n = xs.length;
+  if (n < 2) return 0;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+  return varX === 0 || varY === 0 ? 0 : cov / Math.sqrt(varX * varY);
+};
+
+export const compareReadings = (a: SavedReading, b: SavedReading): ComparisonSummary => {
+  const byYear = new Map<number, ComparisonYear>();
+  const entry = (year: number) => {
+    if (!byYear.has(year)) byYear.set(year, { year });
+    return byYear.get(year)!;
+  };
+  a.result.chartData.forEach(point => { entry(point.year).a = point; });
+  b.result.chartData.forEach(point => { entry(point.year).b = point; });
+
+  const years = Array.from(byYear.values()).sort((x, y) => x.year - y.year);
+  const overlap = years.filter(y => y.a && y.b) as Required<ComparisonYear>[];
+
+  const bothGood = overlap.filter(y => isGoodYear(y.a) && isGoodYear(y.b));
+  const bothBad = overlap.filter(y => !isGoodYear(y.a) && !isGoodYear(y.b));
+  const divergent = overlap
+    .filter(y => isGoodYear(y.a) !== isGoodYear(y.b))
+    .sort((x, y) => Math.abs(y.a.close - y.b.close) - Math.abs(x.a.close - x.b.close))
+    .slice(0, TOP_DIVERGENT_YEARS)
+    .sort((x, y) => x.year - y.year);
+
+  const correlation = pearson(overlap.map(y => y.a.close), overlap.map(y => y.b.close));
+  const relations = findPillarRelations(a, b);
+
+  // 基础分 + 干支关系 + 走势同步程度 (相关系数、同吉多于同凶)
+  const synergy = overlap.length > 0 ? (bothGood.length - bothBad.length) / overlap.length : 0;
+  const rawScore = BASE_SCORE
+    + relations.reduce((sum, relation) => sum + relation.effect, 0)
+    + correlation * 1.5
+    + synergy * 2;
+
+  return {
+    years,
+    overlapCount: overlap.length,
+    bothGood,
+    bothBad,
+    divergent,
+    correlation,
+    relations,
+    score: Math.round(Math.min(10, Math.max(0, rawScore))),
+  };
+};
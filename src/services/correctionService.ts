@@ -0,0 +1,35 @@
+import { KLinePoint, FieldCorrection } from "../types";
+import { getYearGanZhi } from "./calendarService";
+import { DaYunPlan, getDaYunForAge } from "./daYunService";
+
+// 模型输出的后处理：流年按公历年份重算，大运按起运年龄与大运序列重算，
+// 与模型不一致的字段一律以历法为准，并记录下来供界面展示
+
+export interface CorrectedChart {
+  chartData: KLinePoint[];
+  corrections: FieldCorrection[];
+}
+
+export const correctChartData = (chartData: KLinePoint[], plan: DaYunPlan): CorrectedChart => {
+  const corrections: FieldCorrection[] = [];
+
+  const corrected = chartData.map(point => {
+    const ganZhi = getYearGanZhi(point.year);
+    const daYun = getDaYunForAge(point.age, plan);
+
+    // 本地补齐的年份本来就没有模型数据，不算校正
+    if (point.isFilled) return { ...point, ganZhi, daYun };
+
+    if ((point.ganZhi || '').trim() !== ganZhi) {
+      corrections.push({ age: point.age, year: point.year, field: 'ganZhi', original: point.ganZhi || '', corrected: ganZhi });
+    }
+    // "甲子大运" 与 "甲子" 视为一致
+    if ((point.daYun || '').trim().replace(/大运$/, '') !== daYun) {
+      corrections.push({ age: point.age, year: point.year, field: 'daYun', original: point.daYun || '', corrected: daYun });
+    }
+
+    return { ...point, ganZhi, daYun };
+  });
+
+  return { chartData: corrected, corrections };
+};
@@ -0,0 +1,138 @@
+import { UserInput, Gender } from "../types";
+import { HEAVENLY_STEMS } from "../constants";
+import {
+  BirthMoment,
+  CHINA_UTC_OFFSET,
+  TROPICAL_YEAR,
+  findAdjacentJieJD,
+  fromJulianDay,
+  ganZhiFromIndex,
+  ganZhiIndex,
+  parseBirthMoment,
+  toJulianDay,
+} from "./calendarService";
+
+// 本地大运排盘：方向、起运岁数与十步大运均由历法推算，不再交给模型
+
+export const CHILD_LIMIT_LABEL = '童限';
+export const DA_YUN_STEPS = 10;
+
+export interface DaYunPlan {
+  isForward: boolean;
+  startAge: number;     // 起运年龄 (虚岁)
+  firstDaYun: string;
+  steps: string[];      // 十步大运干支
+}
+
+export interface StartAgeDetail {
+  startAge: number;     // 起运年龄 (虚岁)
+  years: number;        // 出生后 X 年 Y 月 Z 天起运
+  months: number;
+  days: number;
+}
+
+export const getStemPolarity = (pillar: string): 'YANG' | 'YIN' => {
+  if (!pillar) return 'YANG'; // default
+  const stem = HEAVENLY_STEMS.indexOf(pillar.trim().charAt(0));
+  return stem >= 0 && stem % 2 === 1 ? 'YIN' : 'YANG';
+};
+
+// 阳男阴女顺行，阴男阳女逆行
+export const isDaYunForward = (gender: Gender, yearPillar: string): boolean => {
+  const isYangYear = getStemPolarity(yearPillar) === 'YANG';
+  return gender === Gender.MALE ? isYangYear : !isYangYear;
+};
+
+// 从月柱出发按六十甲子顺/逆推一位即为第一步大运
+export const getFirstDaYun = (monthPillar: string, isForward: boolean): string => {
+  const index = ganZhiIndex(monthPillar);
+  if (index < 0) return '';
+  return ganZhiFromIndex(index + (isForward ? 1 : -1));
+};
+
+export const buildDaYunSequence = (firstDaYun: string, isForward: boolean, count: number = DA_YUN_STEPS): string[] => {
+  const index = ganZhiIndex(firstDaYun);
+  if (index < 0) return [];
+  return Array.from({ length: count }, (_, i) => ganZhiFromIndex(index + (isForward ? i : -i)));
+};
+
+// 三天折一年：顺行数到下一个节，逆行数到上一个节
+export const calculateStartAge = (
+  moment: BirthMoment,
+  isForward: boolean,
+  utcOffset: number = CHINA_UTC_OFFSET,
+): StartAgeDetail => {
+  const birthJD = toJulianDay(moment, utcOffset);
+  const jie = findAdjacentJieJD(birthJD);
+  const distanceDays = isForward ? jie.next - birthJD : birthJD - jie.previous;
+
+  // 1 天 = 4 个月，1 个月 = 30 天
+  const totalMonths = distanceDays * 4;
+  const years = Math.floor(totalMonths / 12);
+  const months = Math.floor(totalMonths % 12);
+  const days = Math.floor((totalMonths - Math.floor(totalMonths)) * 30);
+
+  // 起运当年的虚岁 = 起运公历年 - 出生年 + 1
+  const startYear = fromJulianDay(birthJD + (distanceDays / 3) * TROPICAL_YEAR, utcOffset).year;
+
+  return { startAge: Math.max(1, startYear - moment.year + 1), years, months, days };
+};
+
+export const calculateDaYunPlan = (
+  moment: BirthMoment,
+  gender: Gender,
+  yearPillar: string,
+  monthPillar: string,
+): DaYunPlan => {
+  const isForward = isDaYunForward(gender, yearPillar);
+  const firstDaYun = getFirstDaYun(monthPillar, isForward);
+  return {
+    isForward,
+    startAge: calculateStartAge(moment, isForward).startAge,
+    firstDaYun,
+    steps: buildDaYunSequence(firstDaYun, isForward),
+  };
+};
+
+// 以表单为准：手动填写的起运年龄 / 第一步大运优先，否则按出生时间推算
+export const resolveDaYunPlan = (input: UserInput): DaYunPlan => {
+  const isForward = isDaYunForward(input.gender, input.yearPillar);
+  const moment = parseBirthMoment(input.birthDate, input.birthTime);
+
+  const firstDaYun = ganZhiIndex(input.firstDaYun) >= 0
+    ? input.firstDaYun.trim()
+    : getFirstDaYun(input.monthPillar, isForward);
+
+  const typedStartAge = parseInt(input.startAge);
+  let startAge = 1;
+  if (typedStartAge >= 1) startAge = typedStartAge;
+  else if (moment) startAge = calculateStartAge(moment, isForward).startAge;
+
+  return { isForward, startAge, firstDaYun, steps: buildDaYunSequence(firstDaYun, isForward) };
+};
+
+export const getDaYunForAge = (age: number, plan: DaYunPlan): string => {
+  if (age < plan.startAge || plan.steps.length === 0) return CHILD_LIMIT_LABEL;
+  const step = Math.min(Math.floor((age - plan.startAge) / 10), plan.steps.length - 1);
+  return plan.steps[step];
+};
+
+export interface DaYunSegment {
+  daYun: string;
+  fromAge: number;
+  toAge: number;
+}
+
+// 按大运把 1-100 岁切成若干段：童限一段，之后每步大运一段
+export const buildDaYunSegments = (plan: DaYunPlan, maxAge: number = 100): DaYunSegment[] => {
+  const segments: DaYunSegment[] = [];
+  if (plan.startAge > 1) {
+    segments.push({ daYun: CHILD_LIMIT_LABEL, fromAge: 1, toAge: Math.min(plan.startAge - 1, maxAge) });
+  }
+  plan.steps.forEach((daYun, i) => {
+    const fromAge = plan.startAge + i * 10;
+    const toAge = i === plan.steps.length - 1 ? maxAge : Math.min(fromAge + 9, maxAge);
+    if (fromAge <= maxAge) segments.push({ daYun, fromAge, toAge });
+  });
+  return segments;
+};
@@ -0,0 +1,170 @@
+import { UserInput, LifeDestinyResult, KLinePoint, AnalysisData, Gender, YearDimension, YearDimensionScores, MonthlyPoint } from "../types";
+import { MonthPillar, formatDate, getYearGanZhi } from "./calendarService";
+import { DaYunPlan, getDaYunForAge } from "./daYunService";
+import { MAX_AGE, MIN_AGE } from "./validationService";
+import { format, getTranslations } from "../i18n";
+
+// 演示模式：不调用任何接口，按四柱与性别确定性地生成一份完整结果，
+// 同一组输入总是得到同样的曲线，便于离线演示界面与作为测试数据。
+// 占位文字按报告语言生成
+
+// 字符串 -> 32 位种子 (FNV-1a)
+const hashSeed = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 伪随机数，返回 [0, 1)
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const clampScore = (value: number): number => Math.round(Math.min(95, Math.max(5, value)));
+
+const buildDemoChart = (input: UserInput, plan: DaYunPlan, random: () => number): KLinePoint[] => {
+  const birthYear = parseInt(input.birthYear);
+  const { demo } = getTranslations(input.language);
+
+  // 每步大运一个基调，流年在基调附近波动
+  const levels = new Map<string, number>();
+  const levelOf = (daYun: string) => {
+    if (!levels.has(daYun)) levels.set(daYun, 35 + random() * 40);
+    return levels.get(daYun)!;
+  };
+
+  const points: KLinePoint[] = [];
+  let previousClose = 50;
+  for (let age = MIN_AGE; age <= MAX_AGE; age++) {
+    const daYun = getDaYunForAge(age, plan);
+    const target = levelOf(daYun) + Math.sin(age / 3 + random()) * 8;
+    const open = previousClose;
+    const close = clampScore(open + (target - open) * 0.5 + (random() - 0.5) * 16);
+    const high = clampScore(Math.max(open, close) + random() * 8);
+    const low = clampScore(Math.min(open, close) - random() * 8);
+    const year = birthYear + age - 1;
+    const ganZhi = getYearGanZhi(year);
+
+    points.push({
+      age,
+      year,
+      ganZhi,
+      daYun,
+      open,
+      close,
+      high: Math.max(high, open, close),
+      low: Math.min(low, open, close),
+      score: close,
+      reason: format(demo.yearReason, {
+        year,
+        ganZhi,
+        daYun,
+        trend: close >= open ? demo.yearUp : demo.yearDown,
+        suffix: demo.reasonSuffix,
+      }),
+    });
+    previousClose = close;
+  }
+  return points;
+};
+
+// 流年分项：每项在总分附近有各自的大运偏移与波动。使用独立的随机序列，
+// 不影响总分曲线
+const DEMO_DIMENSIONS: YearDimension[] = ['industry', 'wealth', 'marriage', 'health'];
+
+const addDemoDimensions = (points: KLinePoint[], random: () => number): KLinePoint[] => {
+  const offsets = new Map<string, number>();
+  const offsetOf = (daYun: string, dimension: YearDimension) => {
+    const key = `${daYun}|${dimension}`;
+    if (!offsets.has(key)) offsets.set(key, (random() - 0.5) * 30);
+    return offsets.get(key)!;
+  };
+
+  return points.map(point => {
+    const dimensions: YearDimensionScores = {};
+    DEMO_DIMENSIONS.forEach(dimension => {
+      dimensions[dimension] = clampScore(point.score + offsetOf(point.daYun ?? '', dimension) + (random() - 0.5) * 12);
+    });
+    return { ...point, dimensions };
+  });
+};
+
+const buildDemoAnalysis = (input: UserInput, random: () => number): AnalysisData => {
+  const rating = () => Math.round(3 + random() * 7);
+  const pillars = [input.yearPillar, input.monthPillar, input.dayPillar, input.hourPillar];
+  const { common, demo } = getTranslations(input.language);
+
+  return {
+    bazi: pillars,
+    summary: format(demo.summary, {
+      gender: input.gender === Gender.MALE ? common.male : common.female,
+      pillars: pillars.join(' '),
+    }),
+    summaryScore: rating(),
+    industry: demo.industry,
+    industryScore: rating(),
+    wealth: demo.wealth,
+    wealthScore: rating(),
+    marriage: demo.marriage,
+    marriageScore: rating(),
+    health: demo.health,
+    healthScore: rating(),
+    family: demo.family,
+    familyScore: rating(),
+  };
+};
+
+export const generateDemoResult = (input: UserInput, plan: DaYunPlan): LifeDestinyResult => {
+  const seed = hashSeed([input.gender, input.yearPillar, input.monthPillar, input.dayPillar, input.hourPillar].join('|'));
+  const random = createRandom(seed);
+
+  return {
+    chartData: addDemoDimensions(buildDemoChart(input, plan, random), createRandom(seed + 1)),
+    analysis: buildDemoAnalysis(input, random),
+    corrections: [],
+    warnings: [],
+  };
+};
+
+// 流月演示数据：从流年开盘逐月走向收盘，在最高 / 最低之间波动
+export const generateDemoMonthly = (input: UserInput, point: KLinePoint, months: MonthPillar[]): MonthlyPoint[] => {
+  const seed = hashSeed([input.gender, input.yearPillar, input.monthPillar, input.dayPillar, input.hourPillar, point.year].join('|'));
+  const random = createRandom(seed);
+  const clampToYear = (value: number) => Math.round(Math.min(point.high, Math.max(point.low, value)));
+  const { demo } = getTranslations(input.language);
+
+  let previousClose = point.open;
+  return months.map((pillar, i) => {
+    const target = point.open + ((point.close - point.open) * (i + 1)) / months.length;
+    const open = previousClose;
+    const close = i === months.length - 1 ? point.close : clampToYear(target + (random() - 0.5) * 12);
+    const high = clampToYear(Math.max(open, close) + random() * 5);
+    const low = clampToYear(Math.min(open, close) - random() * 5);
+    previousClose = close;
+
+    return {
+      month: i + 1,
+      ganZhi: pillar.ganZhi,
+      startDate: formatDate(pillar.start),
+      open,
+      close,
+      high: Math.max(high, open, close),
+      low: Math.min(low, open, close),
+      score: close,
+      reason: format(demo.monthReason, {
+        ganZhi: pillar.ganZhi,
+        trend: close >= open ? demo.monthUp : demo.monthDown,
+        suffix: demo.reasonSuffix,
+      }),
+    };
+  });
+};
@@ -0,0 +1,277 @@
+import {
+  FieldCorrection,
+  Gender,
+  KLinePoint,
+  LifeDestinyResult,
+  LLMProvider,
+  SavedInput,
+  SavedReading,
+  ValidationWarning,
+} from "../types";
+import { PROVIDERS, getProvider } from "./providers";
+import { DEFAULT_TIMEOUT_SECONDS } from "./chatClient";
+import { isRecord, validateLifeDestiny } from "./validationService";
+import { restoreMonthlyCache } from "./monthlyService";
+import { restoreChatHistory } from "./followUpService";
+import { isTemplateRef } from "./promptTemplateService";
+import { format, getTranslations, isLanguage } from "../i18n";
+
+// 报告的 JSON 导出 / 导入。文件带格式标识与版本号，导入时先迁移到当前版本，
+// 再按模型输出同样的规则校验，最后交给界面直接展示，不再调用接口。
+//
+// 版本记录：
+//   0 - 早期直接保存的 LifeDestinyResult ({ chartData, analysis })，没有输入与元数据
+//   1 - { format, version, exportedAt, reading: { title, createdAt, modelName, input, result } }
+//       reading.monthly (流月缓存)、reading.chat (追问对话)、result.template (解读流派) 为可选字段，
+//       旧文件没有也不影响，不单独升级版本
+
+export const EXPORT_FORMAT = 'life-k-line-reading';
+export const EXPORT_VERSION = 1;
+
+export type ExportedReading = Omit<SavedReading, 'id'>;
+
+export interface ReadingExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 时间
+  reading: ExportedReading;
+}
+
+// 导入失败，reason 为不带前缀的原因，供分享链接等场景复用
+export class ImportError extends Error {
+  constructor(readonly reason: string) {
+    super(format(getTranslations().services.importFailed, { reason }));
+    this.name = 'ImportError';
+  }
+}
+
+// 旧文件缺少的输入字段用表单默认值补上
+const DEFAULT_SAVED_INPUT: SavedInput = {
+  name: '',
+  gender: Gender.MALE,
+  birthYear: '',
+  birthDate: '',
+  birthTime: '',
+  yearPillar: '',
+  monthPillar: '',
+  dayPillar: '',
+  hourPillar: '',
+  startAge: '',
+  firstDaYun: '',
+  provider: 'openai',
+  modelName: getProvider('openai').defaultModel,
+  apiBaseUrl: getProvider('openai').defaultBaseUrl,
+  stream: true,
+  timeoutSeconds: String(DEFAULT_TIMEOUT_SECONDS),
+  generationMode: 'single',
+};
+
+export const buildExportFile = (reading: SavedReading): ReadingExportFile => {
+  const exported: Partial<SavedReading> = { ...reading };
+  delete exported.id;
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    reading: exported as ExportedReading,
+  };
+};
+
+// 报告标题转成可用的文件名
+export const toFileName = (title: string, extension: string): string =>
+  `${title.replace(/[\\/:*?"<>|\s·]+/g, '_').replace(/^_+|_+$/g, '') || 'reading'}.${extension}`;
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // 下载开始后再释放
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// 在浏览器中下载为 .json 文件
+export const downloadReading = (reading: SavedReading): void => {
+  const json = JSON.stringify(buildExportFile(reading), null, 2);
+  downloadBlob(new Blob([json], { type: 'application/json' }), toFileName(reading.title, 'json'));
+};
+
+// v0 -> v1：从结果本身还原出四柱与出生年份，其余输入无从得知，按默认值处理
+const migrateFromV0 = (data: Record<string, unknown>): Record<string, unknown> => {
+  const analysis = isRecord(data.analysis) ? data.analysis : {};
+  const bazi = Array.isArray(analysis.bazi) ? analysis.bazi.map(String) : [];
+  const points = Array.isArray(data.chartData) ? data.chartData.filter(isRecord) : [];
+  const first = points.find(p => Number(p.age) >= 1 && Number.isFinite(Number(p.year)));
+  const birthYear = first ? String(Number(first.year) - Number(first.age) + 1) : '';
+
+  const input: SavedInput = {
+    ...DEFAULT_SAVED_INPUT,
+    birthYear,
+    yearPillar: bazi[0] ?? '',
+    monthPillar: bazi[1] ?? '',
+    dayPillar: bazi[2] ?? '',
+    hourPillar: bazi[3] ?? '',
+  };
+  const createdAt = Date.now();
+  const { services } = getTranslations();
+
+  return {
+    format: EXPORT_FORMAT,
+    version: 1,
+    exportedAt: new Date(createdAt).toISOString(),
+    reading: {
+      title: format(services.importedTitle, { pillars: bazi.join(' ') || services.unknownPillars }),
+      createdAt,
+      modelName: getTranslations().common.unknown,
+      input,
+      result: data,
+    },
+  };
+};
+
+// 每项把 version 为 key 的文件升级到 key + 1
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  0: migrateFromV0,
+};
+
+const detectVersion = (data: Record<string, unknown>): number => {
+  if (data.format === EXPORT_FORMAT) {
+    if (typeof data.version !== 'number' || !Number.isInteger(data.version)) {
+      throw new ImportError(getTranslations().services.importNoVersion);
+    }
+    return data.version;
+  }
+  if (Array.isArray(data.chartData) && isRecord(data.analysis)) return 0;
+  throw new ImportError(getTranslations().services.importWrongFormat);
+};
+
+const migrate = (data: Record<string, unknown>): Record<string, unknown> => {
+  let version = detectVersion(data);
+  if (version > EXPORT_VERSION) {
+    throw new ImportError(format(getTranslations().services.importTooNew, { version, supported: EXPORT_VERSION }));
+  }
+
+  let current = data;
+  while (version < EXPORT_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new ImportError(format(getTranslations().services.importNoMigration, { version }));
+    current = step(current);
+    version++;
+  }
+  return current;
+};
+
+const STRING_INPUT_FIELDS = [
+  'name', 'birthYear', 'birthDate', 'birthTime',
+  'yearPillar', 'monthPillar', 'dayPillar', 'hourPillar', 'startAge', 'firstDaYun',
+  'modelName', 'apiBaseUrl', 'timeoutSeconds',
+] as const;
+// 表单里以字符串保存的数字，手工改成数字的也接受
+const NUMERIC_INPUT_FIELDS: readonly string[] = ['birthYear', 'startAge', 'timeoutSeconds'];
+
+// 导入的输入逐项检查类型，不合法的字段取表单默认值，免得排盘时抛出原生的 TypeError。
+// 只复制已知字段，他人导出的文件里夹带的 API Key 也就不会带进来
+const restoreSavedInput = (raw: unknown): SavedInput => {
+  const data = isRecord(raw) ? raw : {};
+  const input: SavedInput = { ...DEFAULT_SAVED_INPUT };
+  STRING_INPUT_FIELDS.forEach(key => {
+    const value = data[key];
+    if (typeof value === 'string') input[key] = value;
+    else if (typeof value === 'number' && Number.isFinite(value) && NUMERIC_INPUT_FIELDS.includes(key)) {
+      input[key] = String(value);
+    }
+  });
+  if (Object.values(Gender).includes(data.gender as Gender)) input.gender = data.gender as Gender;
+  if (PROVIDERS.some(provider => provider.id === data.provider)) input.provider = data.provider as LLMProvider;
+  if (data.generationMode === 'single' || data.generationMode === 'chunked') input.generationMode = data.generationMode;
+  if (typeof data.stream === 'boolean') input.stream = data.stream;
+  // 旧文件没有报告语言与解读流派，分别按中文与默认模板处理
+  if (isLanguage(data.language)) input.language = data.language;
+  if (typeof data.templateId === 'string') input.templateId = data.templateId;
+  return input;
+};
+
+const isFieldCorrection = (value: unknown): value is FieldCorrection =>
+  isRecord(value) &&
+  typeof value.age === 'number' &&
+  typeof value.year === 'number' &&
+  (value.field === 'ganZhi' || value.field === 'daYun') &&
+  typeof value.original === 'string' &&
+  typeof value.corrected === 'string';
+
+const isValidationWarning = (value: unknown): value is ValidationWarning =>
+  isRecord(value) &&
+  typeof value.code === 'string' &&
+  typeof value.message === 'string' &&
+  (value.path === undefined || typeof value.path === 'string') &&
+  (value.age === undefined || typeof value.age === 'number');
+
+const validateResult = (result: unknown, input: SavedInput): LifeDestinyResult => {
+  if (!isRecord(result) || !Array.isArray(result.chartData) || !isRecord(result.analysis)) {
+    throw new ImportError(getTranslations().services.importNoResult);
+  }
+
+  const pillars = [input.yearPillar, input.monthPillar, input.dayPillar, input.hourPillar];
+  const firstYear = (result.chartData as KLinePoint[]).find(p => isRecord(p) && p.age === 1)?.year;
+  const birthYear = parseInt(input.birthYear) || Number(firstYear) || 0;
+
+  // 与模型输出走同一套校验，手工改过的文件也能得到合法数据
+  const validated = validateLifeDestiny(
+    { ...result.analysis, chartPoints: result.chartData },
+    { birthYear, pillars },
+  );
+
+  // 校验会重建数据点，原先补齐的标记需要保留
+  const filledAges = new Set(
+    result.chartData.filter(p => isRecord(p) && p.isFilled === true).map(p => (p as KLinePoint).age),
+  );
+  const chartData = validated.chartData.map(point =>
+    filledAges.has(point.age) ? { ...point, isFilled: true } : point,
+  );
+
+  return {
+    chartData,
+    analysis: validated.analysis,
+    // 界面直接读取各项的字段，格式不对的项丢弃
+    corrections: Array.isArray(result.corrections) ? result.corrections.filter(isFieldCorrection) : [],
+    warnings: [
+      ...(Array.isArray(result.warnings) ? result.warnings.filter(isValidationWarning) : []),
+      ...validated.warnings,
+    ],
+    ...(isTemplateRef(result.template) ? { template: result.template } : {}),
+  };
+};
+
+// 解析导入的文件内容，返回可直接展示和保存的报告 (不含 id)
+export const parseExportFile = (text: string): ExportedReading => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError(getTranslations().services.importInvalidJson);
+  }
+  if (!isRecord(data)) {
+    throw new ImportError(getTranslations().services.importWrongFormat);
+  }
+
+  const file = migrate(data);
+  const reading = file.reading;
+  if (!isRecord(reading)) {
+    throw new ImportError(getTranslations().services.importNoReading);
+  }
+
+  const input = restoreSavedInput(reading.input);
+
+  const createdAt = typeof reading.createdAt === 'number' ? reading.createdAt : Date.now();
+  const result = validateResult(reading.result, input);
+  return {
+    title: typeof reading.title === 'string' && reading.title.trim() ? reading.title : getTranslations().services.importedReading,
+    createdAt,
+    modelName: typeof reading.modelName === 'string' ? reading.modelName : getTranslations().common.unknown,
+    input,
+    result,
+    monthly: restoreMonthlyCache(reading.monthly),
+    chat: restoreChatHistory(reading.chat, result.chartData),
+  };
+};
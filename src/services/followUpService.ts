@@ -0,0 +1,145 @@
+import { ChatMessage, KLinePoint, SavedReading, UserInput } from "../types";
+import { resolveDaYunPlan } from "./daYunService";
+import { isRecord } from "./validationService";
+import {
+  DEFAULT_TIMEOUT_SECONDS,
+  RequestControl,
+  resolveChatEndpoint,
+  requestChatCompletion,
+  parseJsonContent,
+} from "./chatClient";
+import { buildFollowUpPrompt } from "./promptService";
+import { applyTemplate, resolveReadingTemplate } from "./promptTemplateService";
+import { analyzeTurningPoints } from "./turningPointService";
+import { getProvider } from "./providers";
+import { format, getPrompts, getTranslations } from "../i18n";
+
+// 报告追问：把四柱、报告、K线与之前的对话作为上下文发给同一个模型，
+// 模型回答时可指出相关年份，界面据此在K线图上高亮。对话随报告保存。
+
+const MAX_HISTORY_MESSAGES = 10; // 只带最近几轮对话，控制 Prompt 长度
+const MAX_FOCUS_YEARS = 12;      // 附上详批的年份上限
+const MAX_ANSWER_YEARS = 5;
+
+export interface FollowUpOptions {
+  signal?: AbortSignal;
+  onStatus?: RequestControl['onStatus'];
+}
+
+// 问题中提到的年份：四位公历年或 "N岁" / "N歳" / "age N" / "N years old"，只保留报告范围内的
+export const findMentionedYears = (text: string, chartData: KLinePoint[]): number[] => {
+  const years = new Set<number>();
+  for (const match of text.matchAll(/(\d{4})\s*年?/g)) {
+    const year = Number(match[1]);
+    if (chartData.some(p => p.year === year)) years.add(year);
+  }
+  for (const match of text.matchAll(/(\d{1,3})\s*(?:岁|歳|years?\s+old)|\bage\s+(\d{1,3})/gi)) {
+    const point = chartData.find(p => p.age === Number(match[1] ?? match[2]));
+    if (point) years.add(point.year);
+  }
+  return Array.from(years).sort((a, b) => a - b);
+};
+
+// 本次问题与最近回答涉及的年份，详批随 Prompt 一起发送
+const collectFocusYears = (question: string, history: ChatMessage[], chartData: KLinePoint[]): number[] => {
+  const years = new Set(findMentionedYears(question, chartData));
+  [...history].reverse().forEach(message => {
+    (message.years ?? findMentionedYears(message.content, chartData)).forEach(year => {
+      if (years.size < MAX_FOCUS_YEARS) years.add(year);
+    });
+  });
+  return Array.from(years).slice(0, MAX_FOCUS_YEARS);
+};
+
+const normalizeYears = (value: unknown, chartData: KLinePoint[]): number[] => {
+  if (!Array.isArray(value)) return [];
+  const valid = value
+    .map(Number)
+    .filter(year => Number.isInteger(year) && chartData.some(p => p.year === year));
+  return Array.from(new Set(valid)).slice(0, MAX_ANSWER_YEARS);
+};
+
+// 演示模式：按提到的年份或阶段高低点拼出一段回答
+const buildDemoAnswer = (reading: SavedReading, question: string): ChatMessage => {
+  const { chartData } = reading.result;
+  const mentioned = findMentionedYears(question, chartData);
+  const { peaks, troughs } = analyzeTurningPoints(chartData);
+  const points = mentioned.length > 0
+    ? chartData.filter(p => mentioned.includes(p.year))
+    : [...peaks, ...troughs].map(t => t.point).sort((a, b) => a.age - b.age);
+  const picked = points.slice(0, MAX_ANSWER_YEARS);
+  const { demo } = getTranslations(reading.input.language);
+
+  const lines = picked.map(p => format(demo.answerLine, {
+    year: p.year,
+    age: p.age,
+    ganZhi: p.ganZhi,
+    close: p.close,
+    trend: p.close >= p.open ? demo.answerUp : demo.answerDown,
+  }));
+  return {
+    role: 'assistant',
+    content: `${demo.answerIntro}\n${lines.join('\n') || demo.answerNone}`,
+    createdAt: Date.now(),
+    years: picked.map(p => p.year),
+  };
+};
+
+export const askFollowUp = async (
+  input: UserInput,
+  reading: SavedReading,
+  question: string,
+  { signal, onStatus }: FollowUpOptions = {},
+): Promise<ChatMessage> => {
+  if (getProvider(input.provider).offline) {
+    return buildDemoAnswer(reading, question);
+  }
+
+  const history = (reading.chat ?? []).slice(-MAX_HISTORY_MESSAGES);
+  const { chartData } = reading.result;
+  const endpoint = resolveChatEndpoint(input.provider, input.apiBaseUrl, input.apiKey, input.modelName);
+  const timeoutSeconds = parseInt(input.timeoutSeconds) || DEFAULT_TIMEOUT_SECONDS;
+  const content = await requestChatCompletion(endpoint, {
+    task: getTranslations().services.taskFollowUp,
+    systemPrompt: applyTemplate(getPrompts(input.language).followUpInstruction, input, resolveReadingTemplate(reading)),
+    userPrompt: buildFollowUpPrompt(
+      input,
+      resolveDaYunPlan(input),
+      reading.result,
+      history,
+      question,
+      collectFocusYears(question, history, chartData),
+    ),
+  }, { signal, timeoutMs: timeoutSeconds * 1000, onStatus });
+
+  const data = parseJsonContent(content);
+  if (!isRecord(data) || typeof data.answer !== 'string' || !data.answer.trim()) {
+    throw new Error(getTranslations().services.missingAnswer);
+  }
+  return {
+    role: 'assistant',
+    content: data.answer.trim(),
+    createdAt: Date.now(),
+    years: normalizeYears(data.years, chartData),
+  };
+};
+
+export const withChatMessages = (reading: SavedReading, messages: ChatMessage[]): SavedReading => ({
+  ...reading,
+  chat: [...(reading.chat ?? []), ...messages],
+});
+
+// 导入文件中的对话记录，只保留格式正确的消息
+export const restoreChatHistory = (value: unknown, chartData: KLinePoint[]): ChatMessage[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const messages = value
+    .filter(isRecord)
+    .filter(m => (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string')
+    .map(m => ({
+      role: m.role as ChatMessage['role'],
+      content: m.content as string,
+      createdAt: typeof m.createdAt === 'number' ? m.createdAt : Date.now(),
+      ...(m.role === 'assistant' && { years: normalizeYears(m.years, chartData) }),
+    }));
+  return messages.length > 0 ? messages : undefined;
+};
@@ -1,157 +1,112 @@
-
-import { UserInput, LifeDestinyResult, Gender } from "../types";
-import { BAZI_SYSTEM_INSTRUCTION } from "../constants";
-
-// Helper to determine stem polarity
-const getStemPolarity = (pillar: string): 'YANG' | 'YIN' => {
-  if (!pillar) return 'YANG'; // default
-  const firstChar = pillar.trim().charAt(0);
-  const yangStems = ['甲', '丙', '戊', '庚', '壬'];
-  const yinStems = ['乙', '丁', '己', '辛', '癸'];
-  
-  if (yangStems.includes(firstChar)) return 'YANG';
-  if (yinStems.includes(firstChar)) return 'YIN';
-  return 'YANG'; // fallback
-};
-
-export const generateLifeAnalysis = async (input: UserInput): Promise<LifeDestinyResult> => {
+import { UserInput, LifeDestinyResult, GenerationProgress, RequestStatus, ValidationWarning } from "../types";
+import { resolveDaYunPlan } from "./daYunService";
+import { correctChartData } from "./correctionService";
+import { validateLifeDestiny, normalizePartialPoints, MAX_AGE } from "./validationService";
+import { ChartPointsStreamParser } from "./streamService";
+import {
+  DEFAULT_TIMEOUT_SECONDS,
+  RequestControl,
+  resolveChatEndpoint,
+  requestChatCompletion,
+  parseJsonContent,
+} from "./chatClient";
+import { buildFullAnalysisPrompt } from "./promptService";
+import { applyTemplate, resolveInputTemplate } from "./promptTemplateService";
+import { generateChunkedRaw, stitchSegmentBoundaries } from "./chunkedGenerationService";
+import { generateDemoResult } from "./demoService";
+import { getProvider } from "./providers";
+import { getPrompts, getTranslations } from "../i18n";
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: GenerationProgress) => void;
+  onStatus?: (status: RequestStatus) => void;
+}
+
+export const generateLifeAnalysis = async (
+  input: UserInput,
+  { signal, onProgress, onStatus }: GenerateOptions = {},
+): Promise<LifeDestinyResult> => {
   
-  const { apiKey, apiBaseUrl, modelName } = input;
-
-  if (!apiKey || !apiKey.trim()) {
-    throw new Error("请在表单中填写有效的 API Key");
-  }
-  if (!apiBaseUrl || !apiBaseUrl.trim()) {
-    throw new Error("请在表单中填写有效的 API Base URL");
+  // 大运序列与起运岁数在本地排定，模型只负责批断
+  const daYunPlan = resolveDaYunPlan(input);
+  if (daYunPlan.steps.length === 0) {
+    throw new Error(getTranslations().services.invalidDaYun);
   }
 
-  // Remove trailing slash if present
-  const cleanBaseUrl = apiBaseUrl.replace(/\/+$/, "");
-  // Use user provided model name or fallback
-  const targetModel = modelName && modelName.trim() ? modelName.trim() : "gemini-3-pro-preview";
-
-  const genderStr = input.gender === Gender.MALE ? '男 (乾造)' : '女 (坤造)';
-  const startAgeInt = parseInt(input.startAge) || 1;
-  
-  // Calculate Da Yun Direction accurately
-  const yearStemPolarity = getStemPolarity(input.yearPillar);
-  let isForward = false;
-
-  if (input.gender === Gender.MALE) {
-    isForward = yearStemPolarity === 'YANG';
-  } else {
-    isForward = yearStemPolarity === 'YIN';
+  // 演示模式直接在本地生成
+  if (getProvider(input.provider).offline) {
+    return generateDemoResult(input, daYunPlan);
   }
 
-  const daYunDirectionStr = isForward ? '顺行 (Forward)' : '逆行 (Backward)';
-  
-  const directionExample = isForward 
-    ? "例如：第一步是【戊申】，第二步则是【己酉】（顺排）" 
-    : "例如：第一步是【戊申】，第二步则是【丁未】（逆排）";
-
-  const userPrompt = `
-    请根据以下**已经排好的**八字四柱和**指定的大运信息**进行分析。
-    
-    【基本信息】
-    性别：${genderStr}
-    姓名：${input.name || "未提供"}
-    出生年份：${input.birthYear}年 (阳历)
-    
-    【八字四柱】
-    年柱：${input.yearPillar} (天干属性：${yearStemPolarity === 'YANG' ? '阳' : '阴'})
-    月柱：${input.monthPillar}
-    日柱：${input.dayPillar}
-    时柱：${input.hourPillar}
-    
-    【大运核心参数】
-    1. 起运年龄：${input.startAge} 岁 (虚岁)。
-    2. 第一步大运：${input.firstDaYun}。
-    3. **排序方向**：${daYunDirectionStr}。
-    
-    【必须执行的算法 - 大运序列生成】
-    请严格按照以下步骤生成数据：
-    
-    1. **锁定第一步**：确认【${input.firstDaYun}】为第一步大运。
-    2. **计算序列**：根据六十甲子顺序和方向（${daYunDirectionStr}），推算出接下来的 9 步大运。
-       ${directionExample}
-    3. **填充 JSON**：
-       - Age 1 到 ${startAgeInt - 1}: daYun = "童限"
-       - Age ${startAgeInt} 到 ${startAgeInt + 9}: daYun = [第1步大运: ${input.firstDaYun}]
-       - Age ${startAgeInt + 10} 到 ${startAgeInt + 19}: daYun = [第2步大运]
-       - Age ${startAgeInt + 20} 到 ${startAgeInt + 29}: daYun = [第3步大运]
-       - ...以此类推直到 100 岁。
-    
-    【特别警告】
-    - **daYun 字段**：必须填大运干支（10年一变），**绝对不要**填流年干支。
-    - **ganZhi 字段**：填入该年份的**流年干支**（每年一变，例如 2024=甲辰，2025=乙巳）。
-    
-    任务：
-    1. 确认格局与喜忌。
-    2. 生成 **1-100 岁 (虚岁)** 的人生流年K线数据。
-    3. 在 \`reason\` 字段中提供流年详批。
-    4. 生成带评分的命理分析报告。
-    
-    请严格按照系统指令生成 JSON 数据。
-  `;
-
-  try {
-    const response = await fetch(`${cleanBaseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: targetModel, 
-        messages: [
-          { role: "system", content: BAZI_SYSTEM_INSTRUCTION },
-          { role: "user", content: userPrompt }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.7
-      })
-    });
+  // 模板在发出请求前取定，各段请求与结果中记录的是同一份
+  const template = resolveInputTemplate(input);
+  const endpoint = resolveChatEndpoint(input.provider, input.apiBaseUrl, input.apiKey, input.modelName);
+  const timeoutSeconds = parseInt(input.timeoutSeconds) || DEFAULT_TIMEOUT_SECONDS;
+  const control: RequestControl = { signal, timeoutMs: timeoutSeconds * 1000, onStatus };
 
-    if (!response.ok) {
-      const errText = await response.text();
-      throw new Error(`API 请求失败: ${response.status} - ${errText}`);
-    }
+  const validationContext = {
+    birthYear: parseInt(input.birthYear),
+    pillars: [input.yearPillar, input.monthPillar, input.dayPillar, input.hourPillar],
+  };
 
-    const jsonResult = await response.json();
-    const content = jsonResult.choices?.[0]?.message?.content;
+  // 已收到的数据点先行归一化、校正后交给界面预览
+  const reportProgress = (rawPoints: Record<string, unknown>[]) => {
+    if (!onProgress) return;
+    const { chartData } = correctChartData(normalizePartialPoints(rawPoints, validationContext), daYunPlan);
+    onProgress({ receivedYears: chartData.length, totalYears: MAX_AGE, chartData });
+  };
 
-    if (!content) {
-      throw new Error("模型未返回任何内容。");
+  try {
+    let data: unknown;
+    let extraWarnings: ValidationWarning[] = [];
+    let boundaryAges: number[] = [];
+
+    if (input.generationMode === 'chunked') {
+      const chunked = await generateChunkedRaw(endpoint, input, daYunPlan, template, control, reportProgress);
+      data = chunked.data;
+      extraWarnings = chunked.warnings;
+      boundaryAges = chunked.boundaryAges;
+    } else {
+      // 流式模式下边接收边解析，每闭合一个 chartPoints 对象就刷新一次预览；重试时从头解析
+      let parser = new ChartPointsStreamParser();
+      let rawPoints: Record<string, unknown>[] = [];
+      let parsingAttempt = 1;
+      const content = await requestChatCompletion(endpoint, {
+        task: getTranslations().services.taskFull,
+        systemPrompt: applyTemplate(getPrompts(input.language).systemInstruction, input, template),
+        userPrompt: buildFullAnalysisPrompt(input, daYunPlan),
+        stream: input.stream,
+        onDelta: (delta, attempt) => {
+          if (attempt !== parsingAttempt) {
+            parser = new ChartPointsStreamParser();
+            rawPoints = [];
+            parsingAttempt = attempt;
+          }
+          const completed = parser.feed(delta);
+          if (completed.length === 0) return;
+          rawPoints.push(...completed);
+          reportProgress(rawPoints);
+        },
+      }, control);
+      data = parseJsonContent(content);
     }
 
-    // 解析 JSON
-    const data = JSON.parse(content);
+    // 结构校验与归一化，问题以 warnings 形式返回
+    const validated = validateLifeDestiny(data, validationContext);
 
-    // 简单校验数据完整性
-    if (!data.chartPoints || !Array.isArray(data.chartPoints)) {
-      throw new Error("模型返回的数据格式不正确（缺失 chartPoints）。");
-    }
+    // 以历法为准校正流年与大运，分段模式再把各段首尾接上
+    const corrected = correctChartData(validated.chartData, daYunPlan);
 
     return {
-      chartData: data.chartPoints,
-      analysis: {
-        bazi: data.bazi || [],
-        summary: data.summary || "无摘要",
-        summaryScore: data.summaryScore || 5,
-        industry: data.industry || "无",
-        industryScore: data.industryScore || 5,
-        wealth: data.wealth || "无",
-        wealthScore: data.wealthScore || 5,
-        marriage: data.marriage || "无",
-        marriageScore: data.marriageScore || 5,
-        health: data.health || "无",
-        healthScore: data.healthScore || 5,
-        family: data.family || "无",
-        familyScore: data.familyScore || 5,
-      },
+      chartData: stitchSegmentBoundaries(corrected.chartData, boundaryAges),
+      analysis: validated.analysis,
+      corrections: corrected.corrections,
+      warnings: [...extraWarnings, ...validated.warnings],
+      template,
     };
   } catch (error) {
-    console.error("Gemini/OpenAI API Error:", error);
+    console.error(`${input.provider} API Error:`, error);
     throw error;
   }
 };
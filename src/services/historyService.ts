@@ -0,0 +1,110 @@
+import { UserInput, LifeDestinyResult, SavedReading, SavedInput } from "../types";
+import { format, getTranslations } from "../i18n";
+
+// 历史记录：每次成功生成的结果连同输入 (不含 API Key) 存入浏览器 IndexedDB
+
+const DB_NAME = 'life-k-line';
+const DB_VERSION = 1;
+const STORE_NAME = 'readings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error(getTranslations().services.indexedDbUnsupported));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // 打开失败时允许下次重试
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// 把一次 IDBRequest 包成 Promise
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const createId = (): string =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const stripApiKey = (input: UserInput): SavedInput => {
+  const saved: Partial<UserInput> = { ...input };
+  delete saved.apiKey;
+  return saved as SavedInput;
+};
+
+export const buildDefaultTitle = (input: SavedInput, createdAt: number): string => {
+  const t = getTranslations();
+  const pillars = [input.yearPillar, input.monthPillar, input.dayPillar, input.hourPillar].join(' ');
+  const date = new Date(createdAt).toLocaleDateString(t.locale);
+  return format(t.services.defaultTitle, { name: input.name || t.common.unnamed, pillars, date });
+};
+
+export const createReading = (input: UserInput, result: LifeDestinyResult): SavedReading => {
+  const createdAt = Date.now();
+  const savedInput = stripApiKey(input);
+  return {
+    id: createId(),
+    title: buildDefaultTitle(savedInput, createdAt),
+    createdAt,
+    modelName: input.modelName,
+    input: savedInput,
+    result,
+  };
+};
+
+// 导入的报告分配新 id，避免覆盖本地已有记录
+export const restoreReading = (reading: Omit<SavedReading, 'id'>): SavedReading => ({
+  ...reading,
+  id: createId(),
+});
+
+export const saveReading = async (reading: SavedReading): Promise<void> => {
+  await runRequest('readwrite', store => store.put(reading));
+};
+
+// 新的在前
+export const listReadings = async (): Promise<SavedReading[]> => {
+  const readings = await runRequest<SavedReading[]>('readonly', store => store.getAll());
+  return readings.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getReading = (id: string): Promise<SavedReading | undefined> =>
+  runRequest<SavedReading | undefined>('readonly', store => store.get(id));
+
+export const updateReading = async (reading: SavedReading): Promise<void> => {
+  await runRequest('readwrite', store => store.put(reading));
+};
+
+export const renameReading = async (id: string, title: string): Promise<void> => {
+  const reading = await getReading(id);
+  if (!reading) return;
+  await updateReading({ ...reading, title: title.trim() || reading.title });
+};
+
+export const deleteReading = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,107 @@
+import { KLinePoint, YearDimension } from "../types";
+
+// K线图的技术指标：收盘价均线、布林带、大运均线、逐年分数变化。
+// 数据不足一个周期的年份不出值 (undefined)，图上对应位置留空。
+// 流年分项 (事业 / 财富 / 婚姻 / 健康) 直接取自模型数据，也在这里配色。
+// 名称随界面语言，见 i18n 的 chart.indicators 与 dimensions。
+
+export type ChartIndicator = 'ma5' | 'ma10' | 'ma20' | 'boll' | 'daYunAvg' | 'scoreChange';
+
+export interface IndicatorOption {
+  id: ChartIndicator;
+  color: string;
+}
+
+export const INDICATOR_OPTIONS: IndicatorOption[] = [
+  { id: 'ma5', color: '#f59e0b' },
+  { id: 'ma10', color: '#3b82f6' },
+  { id: 'ma20', color: '#a855f7' },
+  { id: 'boll', color: '#64748b' },
+  { id: 'daYunAvg', color: '#0d9488' },
+  { id: 'scoreChange', color: '#6b7280' },
+];
+
+export interface DimensionOption {
+  id: YearDimension;
+  color: string;
+}
+
+// 配色与报告中的分项卡片一致
+export const DIMENSION_OPTIONS: DimensionOption[] = [
+  { id: 'industry', color: '#2563eb' },
+  { id: 'wealth', color: '#d97706' },
+  { id: 'marriage', color: '#db2777' },
+  { id: 'health', color: '#059669' },
+];
+
+export const BOLL_PERIOD = 20;
+const BOLL_WIDTH = 2; // 上下轨 = 中轨 ± 2 倍标准差
+
+export interface IndicatorValues {
+  ma5?: number;
+  ma10?: number;
+  ma20?: number;
+  bollUpper?: number;
+  bollMiddle?: number;
+  bollLower?: number;
+  daYunAvg?: number;
+  scoreChange?: number; // 与上一年 score 之差
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export const movingAverage = (values: number[], period: number): (number | undefined)[] =>
+  values.map((_, i) => {
+    if (i < period - 1) return undefined;
+    const window = values.slice(i - period + 1, i + 1);
+    return round(window.reduce((sum, v) => sum + v, 0) / period);
+  });
+
+export const bollingerBands = (values: number[], period: number = BOLL_PERIOD) =>
+  values.map((_, i) => {
+    if (i < period - 1) return undefined;
+    const window = values.slice(i - period + 1, i + 1);
+    const mean = window.reduce((sum, v) => sum + v, 0) / period;
+    const std = Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+    return {
+      upper: round(Math.min(100, mean + BOLL_WIDTH * std)),
+      middle: round(mean),
+      lower: round(Math.max(0, mean - BOLL_WIDTH * std)),
+    };
+  });
+
+// 每步大运内收盘价的平均值，同一步大运的年份取同一个值
+export const daYunAverages = (points: KLinePoint[]): (number | undefined)[] => {
+  const totals = new Map<string, { sum: number; count: number }>();
+  points.forEach(p => {
+    if (!p.daYun) return;
+    const total = totals.get(p.daYun) ?? { sum: 0, count: 0 };
+    total.sum += p.close;
+    total.count++;
+    totals.set(p.daYun, total);
+  });
+  return points.map(p => {
+    const total = p.daYun ? totals.get(p.daYun) : undefined;
+    return total ? round(total.sum / total.count) : undefined;
+  });
+};
+
+export const computeIndicators = (points: KLinePoint[]): IndicatorValues[] => {
+  const closes = points.map(p => p.close);
+  const ma5 = movingAverage(closes, 5);
+  const ma10 = movingAverage(closes, 10);
+  const ma20 = movingAverage(closes, 20);
+  const boll = bollingerBands(closes);
+  const daYunAvg = daYunAverages(points);
+
+  return points.map((p, i) => ({
+    ma5: ma5[i],
+    ma10: ma10[i],
+    ma20: ma20[i],
+    bollUpper: boll[i]?.upper,
+    bollMiddle: boll[i]?.middle,
+    bollLower: boll[i]?.lower,
+    daYunAvg: daYunAvg[i],
+    scoreChange: i > 0 ? p.score - points[i - 1].score : undefined,
+  }));
+};
@@ -0,0 +1,86 @@
+import { KLinePoint, MonthlyPoint, MonthlyReading, PromptTemplateRef, SavedReading, UserInput } from "../types";
+import { getMonthPillars } from "./calendarService";
+import { resolveDaYunPlan } from "./daYunService";
+import { isRecord, validateMonthlyPoints } from "./validationService";
+import {
+  DEFAULT_TIMEOUT_SECONDS,
+  RequestControl,
+  resolveChatEndpoint,
+  requestChatCompletion,
+  parseJsonContent,
+} from "./chatClient";
+import { buildMonthlyPrompt } from "./promptService";
+import { applyTemplate, isTemplateRef } from "./promptTemplateService";
+import { generateDemoMonthly } from "./demoService";
+import { getProvider } from "./providers";
+import { format, getPrompts, getTranslations } from "../i18n";
+
+// 流月：针对单个流年单独请求十二个月的K线，结果缓存在报告的 monthly 字段里，
+// 同一年不会重复请求
+
+export interface MonthlyOptions {
+  signal?: AbortSignal;
+  onStatus?: RequestControl['onStatus'];
+}
+
+export const getCachedMonthly = (reading: SavedReading, year: number): MonthlyReading | undefined =>
+  reading.monthly?.[year];
+
+export const withMonthlyReading = (reading: SavedReading, monthly: MonthlyReading): SavedReading => ({
+  ...reading,
+  monthly: { ...reading.monthly, [monthly.year]: monthly },
+});
+
+// template 为报告生成时所用的模板，见 promptTemplateService.resolveReadingTemplate
+export const generateMonthlyReading = async (
+  input: UserInput,
+  point: KLinePoint,
+  template: PromptTemplateRef,
+  { signal, onStatus }: MonthlyOptions = {},
+): Promise<MonthlyReading> => {
+  const months = getMonthPillars(point.year);
+  const base = { year: point.year, createdAt: Date.now(), modelName: input.modelName };
+
+  if (getProvider(input.provider).offline) {
+    return { ...base, points: generateDemoMonthly(input, point, months), warnings: [] };
+  }
+
+  const endpoint = resolveChatEndpoint(input.provider, input.apiBaseUrl, input.apiKey, input.modelName);
+  const timeoutSeconds = parseInt(input.timeoutSeconds) || DEFAULT_TIMEOUT_SECONDS;
+  const content = await requestChatCompletion(endpoint, {
+    task: format(getTranslations().services.taskMonthly, { year: point.year }),
+    systemPrompt: applyTemplate(getPrompts(input.language).monthlyInstruction, input, template),
+    userPrompt: buildMonthlyPrompt(input, resolveDaYunPlan(input), point, months),
+  }, { signal, timeoutMs: timeoutSeconds * 1000, onStatus });
+
+  const { points, warnings } = validateMonthlyPoints(parseJsonContent(content), months);
+  return { ...base, points, warnings, template };
+};
+
+// 导入文件中的流月缓存按历法重新校验，无法解析的年份直接丢弃
+export const restoreMonthlyCache = (value: unknown): Record<number, MonthlyReading> | undefined => {
+  if (!isRecord(value)) return undefined;
+
+  const cache: Record<number, MonthlyReading> = {};
+  Object.values(value).forEach(entry => {
+    if (!isRecord(entry) || typeof entry.year !== 'number' || !Array.isArray(entry.points)) return;
+    try {
+      const { points, warnings } = validateMonthlyPoints({ monthlyPoints: entry.points }, getMonthPillars(entry.year));
+      // 原先补齐的标记需要保留
+      const filledMonths = new Set(
+        entry.points.filter(p => isRecord(p) && p.isFilled === true).map(p => (p as MonthlyPoint).month),
+      );
+      cache[entry.year] = {
+        year: entry.year,
+        createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : Date.now(),
+        modelName: typeof entry.modelName === 'string' ? entry.modelName : getTranslations().common.unknown,
+        points: points.map(p => (filledMonths.has(p.month) ? { ...p, isFilled: true } : p)),
+        warnings,
+        ...(isTemplateRef(entry.template) ? { template: entry.template } : {}),
+      };
+    } catch {
+      // 单年数据损坏不影响导入
+    }
+  });
+  return Object.keys(cache).length > 0 ? cache : undefined;
+};
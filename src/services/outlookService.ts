@@ -0,0 +1,53 @@
+import { KLinePoint } from "../types";
+
+// "今年" 定位与未来十年展望：从今年起取十个流年，找出最好 / 最差年份、
+// 整体趋势 (分数的线性回归斜率) 以及期间的换大运。
+
+export const OUTLOOK_YEARS = 10;
+// 每年平均变化不超过这个值视为平稳
+const FLAT_SLOPE = 0.5;
+
+export type OutlookTrend = 'up' | 'down' | 'flat';
+
+export interface Outlook {
+  points: KLinePoint[];
+  best: KLinePoint;
+  worst: KLinePoint;
+  trend: OutlookTrend;
+  slope: number;                 // 每年平均变化的分数
+  daYunChange: KLinePoint | null; // 期间第一次换大运的年份
+}
+
+export const getCurrentYear = (): number => new Date().getFullYear();
+
+export const findCurrentPoint = (points: KLinePoint[], currentYear: number = getCurrentYear()): KLinePoint | undefined =>
+  points.find(p => p.year === currentYear);
+
+const linearSlope = (values: number[]): number => {
+  const n = values.length;
+  if (n < 2) return 0;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, v) => sum + v, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((v, x) => {
+    numerator += (x - meanX) * (v - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  return numerator / denominator;
+};
+
+// 今年不在 1-100 岁范围内时返回 null
+export const buildOutlook = (points: KLinePoint[], currentYear: number = getCurrentYear()): Outlook | null => {
+  const start = points.findIndex(p => p.year === currentYear);
+  if (start < 0) return null;
+
+  const window = points.slice(start, start + OUTLOOK_YEARS);
+  const best = window.reduce((a, b) => (b.score > a.score ? b : a));
+  const worst = window.reduce((a, b) => (b.score < a.score ? b : a));
+  const slope = linearSlope(window.map(p => p.score));
+  const trend: OutlookTrend = slope > FLAT_SLOPE ? 'up' : slope < -FLAT_SLOPE ? 'down' : 'flat';
+  const daYunChange = window.find((p, i) => i > 0 && p.daYun !== window[i - 1].daYun) ?? null;
+
+  return { points: window, best, worst, trend, slope, daYunChange };
+};
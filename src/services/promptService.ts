@@ -0,0 +1,148 @@
+import { UserInput, Gender, KLinePoint, LifeDestinyResult, ChatMessage } from "../types";
+import { DaYunPlan, DaYunSegment, buildDaYunSegments, getStemPolarity } from "./daYunService";
+import { MonthPillar, formatDate } from "./calendarService";
+import { format, getPrompts } from "../i18n";
+
+// 用户 Prompt 的拼装。基本信息、四柱与大运参数是各类请求共用的上下文；
+// 文字模板按报告语言选择，见 i18n/prompts
+
+export const buildPillarContext = (input: UserInput, plan: DaYunPlan): string => {
+  const prompts = getPrompts(input.language);
+  return format(prompts.pillarContext, {
+    gender: input.gender === Gender.MALE ? prompts.male : prompts.female,
+    name: input.name || prompts.notProvided,
+    birthYear: input.birthYear,
+    birthDate: input.birthDate || prompts.notProvided,
+    birthTime: input.birthTime || '',
+    yearPillar: input.yearPillar,
+    polarity: getStemPolarity(input.yearPillar) === 'YANG' ? prompts.yang : prompts.yin,
+    monthPillar: input.monthPillar,
+    dayPillar: input.dayPillar,
+    hourPillar: input.hourPillar,
+    startAge: plan.startAge,
+    firstDaYun: plan.firstDaYun,
+    direction: plan.isForward ? prompts.forward : prompts.backward,
+    steps: plan.steps.join(' → '),
+  });
+};
+
+const formatSegments = (input: UserInput, segments: DaYunSegment[]): string =>
+  segments
+    .map(segment => format(getPrompts(input.language).segmentRow, {
+      from: segment.fromAge,
+      to: segment.toAge,
+      daYun: segment.daYun,
+    }))
+    .join('\n');
+
+// 一次请求生成全部 100 年与报告
+export const buildFullAnalysisPrompt = (input: UserInput, plan: DaYunPlan): string => {
+  const prompts = getPrompts(input.language);
+  return format(prompts.fullAnalysis, {
+    context: buildPillarContext(input, plan),
+    segments: formatSegments(input, buildDaYunSegments(plan)),
+    fieldWarning: prompts.fieldWarning,
+  });
+};
+
+// 分段模式：只要报告，不要 chartPoints
+export const buildReportPrompt = (input: UserInput, plan: DaYunPlan): string =>
+  format(getPrompts(input.language).report, { context: buildPillarContext(input, plan) });
+
+// 分段模式：只要某一步大运内的流年K线
+export const buildSegmentPrompt = (input: UserInput, plan: DaYunPlan, segment: DaYunSegment): string => {
+  const prompts = getPrompts(input.language);
+  const birthYear = parseInt(input.birthYear);
+  return format(prompts.segment, {
+    context: buildPillarContext(input, plan),
+    fromAge: segment.fromAge,
+    toAge: segment.toAge,
+    fromYear: birthYear + segment.fromAge - 1,
+    toYear: birthYear + segment.toAge - 1,
+    count: segment.toAge - segment.fromAge + 1,
+    segments: formatSegments(input, [segment]),
+    fieldWarning: prompts.fieldWarning,
+  });
+};
+
+// 流月：某一流年的十二个月，附上该年的K线与详批作为衔接依据
+export const buildMonthlyPrompt = (input: UserInput, plan: DaYunPlan, point: KLinePoint, months: MonthPillar[]): string => {
+  const prompts = getPrompts(input.language);
+  return format(prompts.monthly, {
+    year: point.year,
+    ganZhi: point.ganZhi,
+    age: point.age,
+    context: buildPillarContext(input, plan),
+    daYun: point.daYun || prompts.unknown,
+    open: point.open,
+    close: point.close,
+    high: point.high,
+    low: point.low,
+    reason: point.reason,
+    months: months
+      .map(m => format(prompts.monthRow, { order: m.order + 1, ganZhi: m.ganZhi, date: formatDate(m.start) }))
+      .join('\n'),
+  });
+};
+
+// 追问：报告全文 + 百年K线概览 + 相关年份的详批 + 之前的对话
+export const buildFollowUpPrompt = (
+  input: UserInput,
+  plan: DaYunPlan,
+  result: LifeDestinyResult,
+  history: ChatMessage[],
+  question: string,
+  focusYears: number[],
+): string => {
+  const prompts = getPrompts(input.language);
+  const { analysis, chartData } = result;
+  const focusPoints = chartData.filter(p => focusYears.includes(p.year));
+
+  const timeline = chartData
+    .map(p => format(prompts.timelineRow, {
+      age: p.age,
+      year: p.year,
+      ganZhi: p.ganZhi,
+      daYun: p.daYun || '-',
+      open: p.open,
+      close: p.close,
+      high: p.high,
+      low: p.low,
+    }))
+    .join('\n');
+  const focus = focusPoints.length > 0
+    ? format(prompts.followUpFocus, {
+        rows: focusPoints.map(p => format(prompts.focusRow, { year: p.year, age: p.age, reason: p.reason })).join('\n'),
+      })
+    : '';
+  const dialogue = history.length > 0
+    ? format(prompts.followUpHistory, {
+        rows: history
+          .map(m => format(prompts.historyRow, {
+            role: m.role === 'user' ? prompts.userRole : prompts.assistantRole,
+            content: m.content,
+          }))
+          .join('\n'),
+      })
+    : '';
+
+  return format(prompts.followUp, {
+    context: buildPillarContext(input, plan),
+    summaryScore: analysis.summaryScore,
+    summary: analysis.summary,
+    industryScore: analysis.industryScore,
+    industry: analysis.industry,
+    wealthScore: analysis.wealthScore,
+    wealth: analysis.wealth,
+    marriageScore: analysis.marriageScore,
+    marriage: analysis.marriage,
+    healthScore: analysis.healthScore,
+    health: analysis.health,
+    familyScore: analysis.familyScore,
+    family: analysis.family,
+    timeline,
+    focus,
+    history: dialogue,
+    question,
+  });
+};
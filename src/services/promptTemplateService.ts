@@ -0,0 +1,152 @@
+import { Gender, LifeDestinyResult, PromptTemplate, PromptTemplateRef, SavedInput, UserInput } from "../types";
+import { Language, PromptSet, format, getPrompts, getTranslations } from "../i18n";
+import { isRecord } from "./validationService";
+
+// 解读流派模板：正文附加在各类请求的系统指令之后，占位符按命盘填入。
+// 内置模板的文字随报告语言切换，见 i18n/prompts；自定义模板保存在 localStorage，
+// 每保存一次版本号加一。生成前取定模板，连同正文记在结果上，之后的请求都用这一份。
+
+export type BuiltInTemplateId = keyof PromptSet['schools'];
+
+// 修改内置模板的文字时同步升级版本号
+const BUILT_IN_TEMPLATES: { id: BuiltInTemplateId; version: number }[] = [
+  { id: 'ziping', version: 1 },
+  { id: 'mangpai', version: 1 },
+  { id: 'concise', version: 1 },
+];
+
+export const DEFAULT_TEMPLATE_ID: BuiltInTemplateId = 'ziping';
+
+// 模板正文可用的占位符
+export const TEMPLATE_VARIABLES = [
+  'name',
+  'gender',
+  'birthYear',
+  'yearPillar',
+  'monthPillar',
+  'dayPillar',
+  'hourPillar',
+  'dayMaster',
+  'startAge',
+  'firstDaYun',
+] as const;
+
+const STORAGE_KEY = 'life-kline-prompt-templates';
+const CUSTOM_ID_PREFIX = 'custom-';
+
+export const isBuiltInTemplateId = (id: unknown): id is BuiltInTemplateId =>
+  BUILT_IN_TEMPLATES.some(template => template.id === id);
+
+const getBuiltInTemplates = (language?: Language): PromptTemplate[] => {
+  const { schools } = getPrompts(language);
+  const names = getTranslations(language).templates.builtIn;
+  return BUILT_IN_TEMPLATES.map(({ id, version }) => ({
+    id,
+    version,
+    name: names[id].name,
+    body: schools[id],
+    builtIn: true,
+  }));
+};
+
+const isCustomTemplate = (value: unknown): value is PromptTemplate =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  value.id.startsWith(CUSTOM_ID_PREFIX) &&
+  typeof value.version === 'number' &&
+  typeof value.name === 'string' &&
+  typeof value.body === 'string';
+
+export const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const data: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(data)
+      ? data.filter(isCustomTemplate).map(template => ({ ...template, builtIn: false }))
+      : [];
+  } catch {
+    // 隐私模式等情况下 localStorage 不可用，或内容被改坏
+    return [];
+  }
+};
+
+const storeCustomTemplates = (templates: PromptTemplate[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch {
+    throw new Error(getTranslations().templates.saveFailed);
+  }
+};
+
+// 内置在前，自定义按保存时间排列
+export const listTemplates = (language?: Language): PromptTemplate[] => [
+  ...getBuiltInTemplates(language),
+  ...loadCustomTemplates(),
+];
+
+// 找不到 (如自定义模板已删除) 时退回默认模板
+export const getTemplate = (id: string | undefined, language?: Language): PromptTemplate => {
+  const templates = listTemplates(language);
+  return templates.find(template => template.id === id)
+    ?? templates.find(template => template.id === DEFAULT_TEMPLATE_ID)!;
+};
+
+// 新建或覆盖自定义模板，覆盖时版本号加一
+export const saveCustomTemplate = (draft: { id?: string; name: string; body: string }): PromptTemplate => {
+  const templates = loadCustomTemplates();
+  const existing = templates.find(template => template.id === draft.id);
+  const saved: PromptTemplate = {
+    id: existing?.id ?? `${CUSTOM_ID_PREFIX}${Date.now().toString(36)}`,
+    version: existing ? existing.version + 1 : 1,
+    name: draft.name.trim(),
+    body: draft.body.trim(),
+    builtIn: false,
+    updatedAt: Date.now(),
+  };
+  storeCustomTemplates(existing
+    ? templates.map(template => (template.id === saved.id ? saved : template))
+    : [...templates, saved]);
+  return saved;
+};
+
+export const deleteCustomTemplate = (id: string) => {
+  storeCustomTemplates(loadCustomTemplates().filter(template => template.id !== id));
+};
+
+export const toTemplateRef = ({ id, version, name, body }: PromptTemplate): PromptTemplateRef =>
+  ({ id, version, name, body });
+
+export const isTemplateRef = (value: unknown): value is PromptTemplateRef =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.version === 'number' &&
+  typeof value.name === 'string' &&
+  typeof value.body === 'string';
+
+// 新报告：按表单所选取定模板
+export const resolveInputTemplate = (input: UserInput): PromptTemplateRef =>
+  toTemplateRef(getTemplate(input.templateId, input.language));
+
+// 已有报告的流月与追问：沿用生成时记下的模板；旧数据没有记录时按 id 查找当前模板
+export const resolveReadingTemplate = (reading: { input: SavedInput; result: LifeDestinyResult }): PromptTemplateRef => {
+  const used: unknown = reading.result.template;
+  if (isTemplateRef(used)) return used;
+  return toTemplateRef(getTemplate(reading.input.templateId, reading.input.language));
+};
+
+// 系统指令 + 模板。正文中的占位符按命盘填入，未知的占位符保留原样
+export const applyTemplate = (instruction: string, input: UserInput, template: PromptTemplateRef): string => {
+  const prompts = getPrompts(input.language);
+  const body = format(template.body, {
+    name: input.name || prompts.notProvided,
+    gender: input.gender === Gender.MALE ? prompts.male : prompts.female,
+    birthYear: input.birthYear,
+    yearPillar: input.yearPillar,
+    monthPillar: input.monthPillar,
+    dayPillar: input.dayPillar,
+    hourPillar: input.hourPillar,
+    dayMaster: input.dayPillar.charAt(0),
+    startAge: input.startAge,
+    firstDaYun: input.firstDaYun,
+  });
+  return instruction + format(prompts.templateSection, { title: template.name, body });
+};
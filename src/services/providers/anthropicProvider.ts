@@ -0,0 +1,42 @@
+import { ProviderAdapter } from "./types";
+import { joinTextBlocks, readPath, readText } from "./readResponse";
+
+const MAX_OUTPUT_TOKENS = 32000;
+
+// Anthropic Messages API。没有 JSON 模式开关，用 "{" 预填充 assistant 回复来约束输出
+export const anthropicProvider: ProviderAdapter = {
+  id: 'anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  defaultModel: 'claude-sonnet-4-5',
+  requiresApiKey: true,
+  streamFormat: 'sse',
+  responsePrefix: '{',
+
+  buildRequest: (endpoint, messages) => ({
+    url: `${endpoint.baseUrl}/messages`,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': endpoint.apiKey,
+      'anthropic-version': '2023-06-01',
+      // 浏览器直连需要显式声明
+      'anthropic-dangerous-direct-browser-access': 'true',
+    },
+    body: {
+      model: endpoint.model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      system: messages.systemPrompt,
+      messages: [
+        { role: 'user', content: messages.userPrompt },
+        { role: 'assistant', content: '{' },
+      ],
+      temperature: 0.7,
+      stream: messages.stream,
+    },
+  }),
+
+  extractContent: (json) => joinTextBlocks(readPath(json, 'content'), block => block.type === 'text'),
+  extractStreamDelta: (chunk) =>
+    readText(chunk, 'type') === 'content_block_delta' && readText(chunk, 'delta', 'type') === 'text_delta'
+      ? readText(chunk, 'delta', 'text')
+      : undefined,
+};
@@ -0,0 +1,18 @@
+import { ProviderAdapter } from "./types";
+import { getTranslations } from "../../i18n";
+
+// 演示模式：只用于表单选项，生成逻辑见 demoService，不会真正发起请求
+export const demoProvider: ProviderAdapter = {
+  id: 'demo',
+  defaultBaseUrl: '',
+  defaultModel: 'demo',
+  requiresApiKey: false,
+  offline: true,
+  streamFormat: 'sse',
+
+  buildRequest: () => {
+    throw new Error(getTranslations().services.demoNoRequest);
+  },
+  extractContent: () => undefined,
+  extractStreamDelta: () => undefined,
+};
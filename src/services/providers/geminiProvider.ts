@@ -0,0 +1,35 @@
+import { ProviderAdapter } from "./types";
+import { joinTextBlocks, readPath } from "./readResponse";
+
+const joinParts = (json: unknown): string | undefined =>
+  joinTextBlocks(readPath(json, 'candidates', 0, 'content', 'parts'));
+
+// Google Gemini 原生 generateContent 接口
+export const geminiProvider: ProviderAdapter = {
+  id: 'gemini',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  defaultModel: 'gemini-3-pro-preview',
+  requiresApiKey: true,
+  streamFormat: 'sse',
+
+  buildRequest: (endpoint, messages) => ({
+    url: messages.stream
+      ? `${endpoint.baseUrl}/models/${endpoint.model}:streamGenerateContent?alt=sse`
+      : `${endpoint.baseUrl}/models/${endpoint.model}:generateContent`,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': endpoint.apiKey,
+    },
+    body: {
+      systemInstruction: { parts: [{ text: messages.systemPrompt }] },
+      contents: [{ role: 'user', parts: [{ text: messages.userPrompt }] }],
+      generationConfig: {
+        responseMimeType: 'application/json',
+        temperature: 0.7,
+      },
+    },
+  }),
+
+  extractContent: joinParts,
+  extractStreamDelta: joinParts,
+};
@@ -0,0 +1,20 @@
+import { LLMProvider } from "../../types";
+import { ProviderAdapter } from "./types";
+import { openaiProvider } from "./openaiProvider";
+import { geminiProvider } from "./geminiProvider";
+import { anthropicProvider } from "./anthropicProvider";
+import { ollamaProvider } from "./ollamaProvider";
+import { demoProvider } from "./demoProvider";
+
+export type { ChatEndpoint, ProviderAdapter } from "./types";
+
+export const PROVIDERS: ProviderAdapter[] = [
+  openaiProvider,
+  geminiProvider,
+  anthropicProvider,
+  ollamaProvider,
+  demoProvider,
+];
+
+export const getProvider = (id: LLMProvider): ProviderAdapter =>
+  PROVIDERS.find(provider => provider.id === id) ?? openaiProvider;
@@ -0,0 +1,32 @@
+import { ProviderAdapter } from "./types";
+import { readText } from "./readResponse";
+
+// 本地 Ollama /api/chat，无需 API Key，流式输出为逐行 JSON
+export const ollamaProvider: ProviderAdapter = {
+  id: 'ollama',
+  defaultBaseUrl: 'http://localhost:11434',
+  defaultModel: 'qwen2.5:14b',
+  requiresApiKey: false,
+  streamFormat: 'ndjson',
+
+  buildRequest: (endpoint, messages) => ({
+    url: `${endpoint.baseUrl}/api/chat`,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(endpoint.apiKey ? { 'Authorization': `Bearer ${endpoint.apiKey}` } : {}),
+    },
+    body: {
+      model: endpoint.model,
+      messages: [
+        { role: 'system', content: messages.systemPrompt },
+        { role: 'user', content: messages.userPrompt },
+      ],
+      format: 'json',
+      stream: Boolean(messages.stream),
+      options: { temperature: 0.7 },
+    },
+  }),
+
+  extractContent: (json) => readText(json, 'message', 'content'),
+  extractStreamDelta: (chunk) => readText(chunk, 'message', 'content'),
+};
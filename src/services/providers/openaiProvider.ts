@@ -0,0 +1,32 @@
+import { ProviderAdapter } from "./types";
+import { readText } from "./readResponse";
+
+// OpenAI 兼容的 /chat/completions (含各类中转服务)
+export const openaiProvider: ProviderAdapter = {
+  id: 'openai',
+  defaultBaseUrl: 'https://max.openai365.top/v1',
+  defaultModel: 'gemini-3-pro-preview',
+  requiresApiKey: true,
+  streamFormat: 'sse',
+
+  buildRequest: (endpoint, messages) => ({
+    url: `${endpoint.baseUrl}/chat/completions`,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${endpoint.apiKey}`,
+    },
+    body: {
+      model: endpoint.model,
+      messages: [
+        { role: "system", content: messages.systemPrompt },
+        { role: "user", content: messages.userPrompt },
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.7,
+      stream: messages.stream,
+    },
+  }),
+
+  extractContent: (json) => readText(json, 'choices', 0, 'message', 'content'),
+  extractStreamDelta: (chunk) => readText(chunk, 'choices', 0, 'delta', 'content'),
+};
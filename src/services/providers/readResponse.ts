@@ -0,0 +1,23 @@
+import { isRecord } from "../validationService";
+
+// 接口返回的 JSON 结构不可信：按路径逐层取值，任何一层不符即为 undefined
+
+export const readPath = (value: unknown, ...path: (string | number)[]): unknown =>
+  path.reduce<unknown>((current, key) => {
+    if (typeof key === 'number') return Array.isArray(current) ? current[key] : undefined;
+    return isRecord(current) ? current[key] : undefined;
+  }, value);
+
+export const readText = (value: unknown, ...path: (string | number)[]): string | undefined => {
+  const text = readPath(value, ...path);
+  return typeof text === 'string' ? text : undefined;
+};
+
+// 文本块数组 (Gemini 的 parts、Anthropic 的 content) 拼成一段，accept 筛选出文本块
+export const joinTextBlocks = (
+  blocks: unknown,
+  accept: (block: Record<string, unknown>) => boolean = () => true,
+): string | undefined =>
+  Array.isArray(blocks)
+    ? blocks.filter(isRecord).filter(accept).map(block => readText(block, 'text') || '').join('')
+    : undefined;
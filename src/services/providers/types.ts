@@ -0,0 +1,37 @@
+import { LLMProvider } from "../../types";
+
+// 各家模型接口的适配层：负责拼装请求 (地址、鉴权头、JSON 模式) 与解析响应，
+// 超时、重试与取消统一由 chatClient 处理
+
+export interface ChatEndpoint {
+  provider: LLMProvider;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+export interface ProviderMessages {
+  systemPrompt: string;
+  userPrompt: string;
+  stream?: boolean;
+}
+
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface ProviderAdapter {
+  id: LLMProvider;  // 界面名称见 i18n 的 providers
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  offline?: boolean; // 不走网络，直接在本地生成结果
+  streamFormat: 'sse' | 'ndjson';
+  // 模型输出需补上的前缀 (如 Anthropic 以 "{" 预填充 assistant 回复来约束 JSON)
+  responsePrefix?: string;
+  buildRequest: (endpoint: ChatEndpoint, messages: ProviderMessages) => ProviderRequest;
+  extractContent: (json: unknown) => string | undefined;
+  extractStreamDelta: (chunk: unknown) => string | undefined;
+}
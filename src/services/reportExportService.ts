@@ -0,0 +1,115 @@
+import { SavedReading } from "../types";
+import { downloadBlob, toFileName } from "./exportService";
+import { format, getTranslations } from "../i18n";
+
+// 报告的 PDF / PNG 导出，全部在浏览器内完成：
+// PDF 走浏览器打印 (另存为 PDF)，PNG 把图表的 SVG 画到高倍率 canvas 上。
+
+const SERIF_FONT_FAMILY = "'Noto Serif SC', serif";
+const FONT_CSS_URL = 'https://fonts.googleapis.com/css2?family=Noto+Serif+SC:wght@400;700';
+const PNG_SCALE = 3;
+const PNG_PADDING = 32;
+const PNG_HEADER_HEIGHT = 72;
+
+// 打印时浏览器以 document.title 作为默认文件名
+export const printReport = (reading: SavedReading): void => {
+  const originalTitle = document.title;
+  document.title = reading.title;
+  window.addEventListener('afterprint', () => { document.title = originalTitle; }, { once: true });
+  window.print();
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// SVG 作为图片绘制时无法使用页面字体，按图中出现的字符取子集字体内联进去；离线时退回系统衬线字体
+const buildEmbeddedFontCss = async (text: string): Promise<string> => {
+  try {
+    const response = await fetch(`${FONT_CSS_URL}&text=${encodeURIComponent(text)}`);
+    if (!response.ok) return '';
+    let css = await response.text();
+    const urls = Array.from(new Set(Array.from(css.matchAll(/url\(([^)]+)\)/g), m => m[1])));
+    for (const url of urls) {
+      const font = await fetch(url);
+      if (!font.ok) return '';
+      css = css.split(url).join(await blobToDataUrl(await font.blob()));
+    }
+    return css;
+  } catch {
+    return '';
+  }
+};
+
+const serializeChartSvg = async (svg: SVGSVGElement): Promise<{ markup: string; width: number; height: number }> => {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+
+  const fontCss = await buildEmbeddedFontCss(svg.textContent ?? '');
+  const style = document.createElementNS('http://www.w3.org/2000/svg', 'style');
+  style.textContent = `${fontCss}\ntext { font-family: ${SERIF_FONT_FAMILY}; }`;
+  clone.insertBefore(style, clone.firstChild);
+
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(getTranslations().services.chartImageFailed));
+    image.src = url;
+  });
+
+// 导出图表为 PNG：标题 + 四柱 + K线图，按 PNG_SCALE 倍率绘制
+export const exportChartPng = async (svg: SVGSVGElement, reading: SavedReading): Promise<void> => {
+  const { markup, width, height } = await serializeChartSvg(svg);
+  const svgUrl = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+
+  try {
+    const image = await loadImage(svgUrl);
+    const canvas = document.createElement('canvas');
+    const canvasWidth = width + PNG_PADDING * 2;
+    const canvasHeight = height + PNG_HEADER_HEIGHT + PNG_PADDING * 2;
+    canvas.width = canvasWidth * PNG_SCALE;
+    canvas.height = canvasHeight * PNG_SCALE;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error(getTranslations().services.canvasUnsupported);
+    ctx.scale(PNG_SCALE, PNG_SCALE);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+
+    const { input } = reading;
+    const { services } = getTranslations();
+    const title = input.name ? format(services.pngTitleNamed, { name: input.name }) : services.pngTitle;
+    const pillars = [input.yearPillar, input.monthPillar, input.dayPillar, input.hourPillar].join(' ');
+    // canvas 可以直接使用页面已加载的字体
+    await Promise.all([
+      document.fonts.load(`700 24px ${SERIF_FONT_FAMILY}`, title),
+      document.fonts.load(`400 14px ${SERIF_FONT_FAMILY}`, pillars),
+    ]).catch(() => undefined);
+
+    ctx.fillStyle = '#1f2937';
+    ctx.font = `700 24px ${SERIF_FONT_FAMILY}`;
+    ctx.fillText(title, PNG_PADDING, PNG_PADDING + 24);
+    ctx.fillStyle = '#6b7280';
+    ctx.font = `400 14px ${SERIF_FONT_FAMILY}`;
+    ctx.fillText(format(services.pngBazi, { pillars }), PNG_PADDING, PNG_PADDING + 52);
+
+    ctx.drawImage(image, PNG_PADDING, PNG_PADDING + PNG_HEADER_HEIGHT, width, height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error(services.imageFailed);
+    downloadBlob(blob, toFileName(reading.title, 'png'));
+  } finally {
+    URL.revokeObjectURL(svgUrl);
+  }
+};
@@ -0,0 +1,131 @@
+import { LLMProvider, RuntimeConfig } from "../types";
+import { getProvider } from "./providers";
+import { isRecord } from "./validationService";
+import { Language, format, getTranslations, isLanguage } from "../i18n";
+
+// 运行时配置：部署时放在 index.html 旁的 config.json，改动后无需重新构建。
+// 页面打开时读取一次，之后按 refreshSeconds 定时重新读取；读取失败时沿用上一次的配置。
+//
+// {
+//   "apiStatus": 1,                      // 0 = 服务器繁忙/维护
+//   "banner": "公告" | { "zh": "...", "en": "...", "ja": "..." },
+//   "defaultApiBaseUrl": "https://...",  // OpenAI 兼容接口的默认地址
+//   "defaultModelName": "...",
+//   "allowedModels": ["..."],            // 空为不限制
+//   "refreshSeconds": 60
+// }
+
+export const RUNTIME_CONFIG_URL = `${import.meta.env.BASE_URL}config.json`;
+
+const DEFAULT_REFRESH_SECONDS = 60;
+const MIN_REFRESH_SECONDS = 15;
+
+// 运行时配置只覆盖这一接口类型的默认值
+const CONFIGURABLE_PROVIDER: LLMProvider = 'openai';
+
+export const DEFAULT_RUNTIME_CONFIG: RuntimeConfig = {
+  apiStatus: 1,
+  banner: {},
+  defaultApiBaseUrl: '',
+  defaultModelName: '',
+  allowedModels: [],
+  refreshSeconds: DEFAULT_REFRESH_SECONDS,
+};
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// 单个字符串视为中文公告，其他语言缺少时也回退到它
+const normalizeBanner = (value: unknown): RuntimeConfig['banner'] => {
+  if (typeof value === 'string') return value.trim() ? { zh: value.trim() } : {};
+  if (!isRecord(value)) return {};
+  const banner: RuntimeConfig['banner'] = {};
+  Object.entries(value).forEach(([language, message]) => {
+    if (isLanguage(language) && readString(message)) banner[language] = readString(message);
+  });
+  return banner;
+};
+
+// 缺少或写错的字段取默认值，不让一处笔误拖垮整份配置
+export const normalizeRuntimeConfig = (data: unknown): RuntimeConfig => {
+  if (!isRecord(data)) return DEFAULT_RUNTIME_CONFIG;
+  const refreshSeconds = Number(data.refreshSeconds);
+  return {
+    apiStatus: data.apiStatus === 0 ? 0 : 1,
+    banner: normalizeBanner(data.banner),
+    defaultApiBaseUrl: readString(data.defaultApiBaseUrl),
+    defaultModelName: readString(data.defaultModelName),
+    allowedModels: Array.isArray(data.allowedModels) ? data.allowedModels.map(readString).filter(Boolean) : [],
+    refreshSeconds: Number.isFinite(refreshSeconds) && refreshSeconds > 0
+      ? Math.max(refreshSeconds, MIN_REFRESH_SECONDS)
+      : DEFAULT_REFRESH_SECONDS,
+  };
+};
+
+export const loadRuntimeConfig = async (signal?: AbortSignal): Promise<RuntimeConfig> => {
+  const response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-store', signal });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return normalizeRuntimeConfig(await response.json());
+};
+
+// 立即读取一次，之后定时重新读取，内容有变化时回调；返回停止函数
+export const watchRuntimeConfig = (onChange: (config: RuntimeConfig) => void): (() => void) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let current = DEFAULT_RUNTIME_CONFIG;
+
+  const refresh = async () => {
+    try {
+      const next = await loadRuntimeConfig(controller.signal);
+      if (JSON.stringify(next) !== JSON.stringify(current)) {
+        current = next;
+        onChange(next);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      // 本地开发或未部署配置文件时按默认配置运行
+      console.warn('Runtime config load failed:', error);
+    }
+    if (!controller.signal.aborted) {
+      timer = setTimeout(refresh, current.refreshSeconds * 1000);
+    }
+  };
+
+  refresh();
+  return () => {
+    controller.abort();
+    clearTimeout(timer);
+  };
+};
+
+export const isServiceBusy = (config: RuntimeConfig): boolean => config.apiStatus === 0;
+
+export const getBannerMessage = (config: RuntimeConfig, language: Language): string =>
+  config.banner[language] || config.banner.zh || '';
+
+export const isModelAllowed = (config: RuntimeConfig, modelName: string): boolean =>
+  config.allowedModels.length === 0 || config.allowedModels.includes(modelName.trim());
+
+// 该接口类型的默认地址与模型，OpenAI 兼容接口可被运行时配置覆盖
+export const resolveProviderDefaults = (
+  id: LLMProvider,
+  config: RuntimeConfig,
+): { provider: LLMProvider; apiBaseUrl: string; modelName: string } => {
+  const provider = getProvider(id);
+  const configurable = provider.id === CONFIGURABLE_PROVIDER;
+  return {
+    provider: provider.id,
+    apiBaseUrl: (configurable && config.defaultApiBaseUrl) || provider.defaultBaseUrl,
+    modelName: (configurable && config.defaultModelName) || provider.defaultModel,
+  };
+};
+
+// 发起请求前的检查，不允许时返回提示文字。演示模式不调用接口，不受限制
+export const checkRuntimeAccess = (config: RuntimeConfig, provider: LLMProvider, modelName: string): string | null => {
+  if (getProvider(provider).offline) return null;
+  const t = getTranslations();
+  if (isServiceBusy(config)) return t.app.busy;
+  if (!isModelAllowed(config, modelName)) {
+    return format(t.services.modelNotAllowed, { model: modelName, models: config.allowedModels.join(', ') });
+  }
+  return null;
+};
@@ -0,0 +1,118 @@
+import { SavedReading } from "../types";
+import { buildExportFile, ExportedReading, ImportError, parseExportFile } from "./exportService";
+import { format, getTranslations } from "../i18n";
+
+// 分享链接：把导出文件压缩后放进 URL 的 # 片段。片段不会发给服务器，
+// 报告只存在于链接本身；打开时按导入同样的流程迁移与校验。
+
+const SHARE_PREFIX = '#share=';
+// 超过这个长度的链接在聊天软件、浏览器地址栏里容易被截断
+export const MAX_SHARE_LENGTH = 60000;
+// 解压后的上限，防止构造的小链接解压出超大内容
+const MAX_DECOMPRESSED_BYTES = 2 * 1024 * 1024;
+
+// 解压结果超出上限
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super(getTranslations().services.shareTooLarge);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): ArrayBuffer => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0)).buffer;
+};
+
+const readAll = async (stream: ReadableStream<Uint8Array>, maxBytes: number): Promise<Uint8Array> => {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new PayloadTooLargeError();
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+};
+
+const ensureCompressionSupport = () => {
+  if (typeof CompressionStream === 'undefined' || typeof DecompressionStream === 'undefined') {
+    throw new Error(getTranslations().services.compressionUnsupported);
+  }
+};
+
+const compress = (text: string): Promise<Uint8Array> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return readAll(stream, Number.POSITIVE_INFINITY);
+};
+
+const decompress = (bytes: ArrayBuffer): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return readAll(stream, MAX_DECOMPRESSED_BYTES);
+};
+
+// 生成完整的分享链接；过长时报错而不是生成一个打不开的链接
+export const buildShareUrl = async (reading: SavedReading): Promise<string> => {
+  ensureCompressionSupport();
+
+  const file = buildExportFile(reading);
+  // 自建接口地址也不随链接外传
+  file.reading.input = { ...file.reading.input, apiBaseUrl: '' };
+
+  const payload = toBase64Url(await compress(JSON.stringify(file)));
+  if (payload.length > MAX_SHARE_LENGTH) {
+    throw new Error(format(getTranslations().services.shareOverLimit, { size: Math.round(payload.length / 1000) }));
+  }
+
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}${SHARE_PREFIX}${payload}`;
+};
+
+// 从 location.hash 中取出分享内容，不是分享链接时返回 null
+export const getSharePayload = (hash: string): string | null =>
+  hash.startsWith(SHARE_PREFIX) ? hash.slice(SHARE_PREFIX.length) : null;
+
+export const decodeSharePayload = async (payload: string): Promise<ExportedReading> => {
+  ensureCompressionSupport();
+
+  if (payload.length > MAX_SHARE_LENGTH) {
+    throw new PayloadTooLargeError();
+  }
+
+  let text: string;
+  try {
+    text = new TextDecoder().decode(await decompress(fromBase64Url(payload)));
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) throw error;
+    throw new Error(getTranslations().services.shareCorrupted);
+  }
+
+  try {
+    return parseExportFile(text);
+  } catch (error) {
+    const message = error instanceof ImportError ? error.reason : error instanceof Error ? error.message : '';
+    throw new Error(format(getTranslations().services.shareInvalid, { message }));
+  }
+};
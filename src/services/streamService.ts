@@ -0,0 +1,130 @@
+import { isRecord } from "./validationService";
+import { format, getTranslations } from "../i18n";
+
+// 模型接口的流式响应读取，以及从未完成的 JSON 中逐个取出 chartPoints
+
+// 逐块读取流式响应 (SSE 或逐行 JSON)，用 extractDelta 取出每块文本交给 onDelta，返回拼接后的完整内容
+export const readResponseStream = async (
+  response: Response,
+  streamFormat: 'sse' | 'ndjson',
+  extractDelta: (chunk: unknown) => string | undefined,
+  onDelta: (delta: string, content: string) => void,
+): Promise<string> => {
+  if (!response.body) {
+    throw new Error(getTranslations().services.streamUnsupported);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+
+  const handlePayload = (payload: string) => {
+    if (!payload || payload === '[DONE]') return;
+
+    // 中转服务的心跳等非 JSON 行，以及 null 之类的非对象，直接跳过
+    let chunk: unknown;
+    try {
+      chunk = JSON.parse(payload);
+    } catch {
+      return;
+    }
+    if (!isRecord(chunk)) return;
+    if (chunk.error) {
+      const { error } = chunk;
+      throw new Error(format(getTranslations().services.streamError, {
+        message: isRecord(error) && typeof error.message === 'string' && error.message
+          ? error.message
+          : JSON.stringify(error),
+      }));
+    }
+    const delta = extractDelta(chunk);
+    if (delta) {
+      content += delta;
+      onDelta(delta, content);
+    }
+  };
+
+  const handleEvent = (event: string) => {
+    if (streamFormat === 'ndjson') {
+      handlePayload(event.trim());
+      return;
+    }
+    for (const line of event.split('\n')) {
+      if (line.startsWith('data:')) handlePayload(line.slice(5).trim());
+    }
+  };
+
+  // SSE 事件以空行分隔，逐行 JSON 以换行分隔
+  const separator = streamFormat === 'sse' ? '\n\n' : '\n';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    // 最后一段可能不完整，留到下一块
+    const events = buffer.split(separator);
+    buffer = events.pop() ?? '';
+    events.forEach(handleEvent);
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) handleEvent(buffer);
+
+  return content;
+};
+
+// 增量扫描模型输出：找到 "chartPoints" 数组后，每闭合一个顶层对象就解析出来
+export class ChartPointsStreamParser {
+  private text = '';
+  private cursor = 0;
+  private arrayStart = -1;
+  private objectStart = -1;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private finished = false;
+
+  feed(delta: string): Record<string, unknown>[] {
+    this.text += delta;
+    const completed: Record<string, unknown>[] = [];
+
+    if (this.arrayStart < 0) {
+      const match = /"chartPoints"\s*:\s*\[/.exec(this.text);
+      if (!match) return completed;
+      this.arrayStart = match.index + match[0].length;
+      this.cursor = this.arrayStart;
+    }
+
+    while (!this.finished && this.cursor < this.text.length) {
+      const ch = this.text[this.cursor];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === '\\') this.escaped = true;
+        else if (ch === '"') this.inString = false;
+      } else if (ch === '"') {
+        this.inString = true;
+      } else if (ch === '{') {
+        if (this.depth === 0) this.objectStart = this.cursor;
+        this.depth++;
+      } else if (ch === '}') {
+        this.depth--;
+        if (this.depth === 0 && this.objectStart >= 0) {
+          try {
+            completed.push(JSON.parse(this.text.slice(this.objectStart, this.cursor + 1)));
+          } catch {
+            // 单个对象解析失败不影响整体，最终结果以完整 JSON 为准
+          }
+          this.objectStart = -1;
+        }
+      } else if (ch === ']' && this.depth === 0) {
+        this.finished = true;
+      }
+
+      this.cursor++;
+    }
+
+    return completed;
+  }
+}
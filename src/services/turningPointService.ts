@@ -0,0 +1,95 @@
+import { KLinePoint } from "../types";
+
+// 关键转折年份：在 chartData 上本地找出阶段高点 / 低点、连续上涨 / 下跌的
+// "人生牛市 / 熊市" 以及单年跌幅最大的年份，供图上标记与报告展示。
+
+const EXTREMUM_WINDOW = 5;     // 前后各 5 年内的最高 / 最低才算阶段高低点
+const MIN_PROMINENCE = 8;      // 比窗口内另一侧极值至少高 / 低这么多分
+const MAX_EXTREMA = 5;         // 高点、低点各最多保留几个
+const MIN_PHASE_YEARS = 4;     // 连续几年同向才算牛市 / 熊市
+const MAX_DROPS = 3;
+
+export type TurningPointKind = 'peak' | 'trough' | 'drop';
+
+export interface TurningPoint {
+  kind: TurningPointKind;
+  point: KLinePoint;
+  value: number; // peak/trough 为显著程度，drop 为当年跌幅
+}
+
+export interface MarketPhase {
+  kind: 'bull' | 'bear';
+  from: KLinePoint;
+  to: KLinePoint;
+  change: number; // 区间内收盘变化 (末年收盘 - 首年开盘)
+}
+
+export interface TurningPointAnalysis {
+  peaks: TurningPoint[];
+  troughs: TurningPoint[];
+  drops: TurningPoint[];
+  phases: MarketPhase[];
+}
+
+const byAge = (a: TurningPoint, b: TurningPoint) => a.point.age - b.point.age;
+
+// 窗口内的严格极值，显著程度 = 与窗口内反向极值的差
+const findExtrema = (points: KLinePoint[], kind: 'peak' | 'trough'): TurningPoint[] => {
+  const value = (p: KLinePoint) => (kind === 'peak' ? p.high : p.low);
+  const results: TurningPoint[] = [];
+
+  points.forEach((point, i) => {
+    const window = points.slice(Math.max(0, i - EXTREMUM_WINDOW), i + EXTREMUM_WINDOW + 1);
+    const others = window.filter(p => p !== point).map(value);
+    if (others.length === 0) return;
+
+    const isExtremum = kind === 'peak'
+      ? others.every(v => value(point) > v)
+      : others.every(v => value(point) < v);
+    if (!isExtremum) return;
+
+    const prominence = kind === 'peak'
+      ? value(point) - Math.min(...others)
+      : Math.max(...others) - value(point);
+    if (prominence >= MIN_PROMINENCE) results.push({ kind, point, value: prominence });
+  });
+
+  return results.sort((a, b) => b.value - a.value).slice(0, MAX_EXTREMA).sort(byAge);
+};
+
+// 连续吉 (收盘 ≥ 开盘) 或连续凶的年份合并成阶段
+const findPhases = (points: KLinePoint[]): MarketPhase[] => {
+  const phases: MarketPhase[] = [];
+  let runStart = 0;
+
+  for (let i = 1; i <= points.length; i++) {
+    const isUp = (p: KLinePoint) => p.close >= p.open;
+    if (i < points.length && isUp(points[i]) === isUp(points[runStart])) continue;
+
+    if (i - runStart >= MIN_PHASE_YEARS) {
+      const from = points[runStart];
+      const to = points[i - 1];
+      phases.push({ kind: isUp(from) ? 'bull' : 'bear', from, to, change: to.close - from.open });
+    }
+    runStart = i;
+  }
+  return phases;
+};
+
+const findDrops = (points: KLinePoint[]): TurningPoint[] =>
+  points
+    .filter(p => p.close < p.open)
+    .map(point => ({ kind: 'drop' as const, point, value: point.open - point.close }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, MAX_DROPS)
+    .sort(byAge);
+
+export const analyzeTurningPoints = (chartData: KLinePoint[]): TurningPointAnalysis => {
+  const points = [...chartData].sort((a, b) => a.age - b.age);
+  return {
+    peaks: findExtrema(points, 'peak'),
+    troughs: findExtrema(points, 'trough'),
+    drops: findDrops(points),
+    phases: findPhases(points),
+  };
+};
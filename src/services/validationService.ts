@@ -0,0 +1,391 @@
+import { AnalysisData, KLinePoint, MonthlyPoint, ValidationWarning, YearDimension, YearDimensionScores } from "../types";
+import { MonthPillar, formatDate } from "./calendarService";
+import { format, getTranslations } from "../i18n";
+
+// 模型返回 JSON 的结构校验与归一化：
+// 数字字符串转数字、OHLC 夹紧到 0-100 且满足 low ≤ open/close ≤ high、
+// 1-100 岁缺失年份按相邻年份补齐。问题不抛错，而是作为 warnings 随结果返回。
+// 提示文字取当前界面语言。
+
+export const MIN_AGE = 1;
+export const MAX_AGE = 100;
+
+const SCORE_MIN = 0;
+const SCORE_MAX = 100;
+const RATING_MIN = 0;
+const RATING_MAX = 10;
+const DEFAULT_RATING = 5;
+
+const ANALYSIS_TEXT_FIELDS = ['summary', 'industry', 'wealth', 'marriage', 'health', 'family'] as const;
+const ANALYSIS_SCORE_FIELDS = [
+  'summaryScore', 'industryScore', 'wealthScore', 'marriageScore', 'healthScore', 'familyScore',
+] as const;
+const YEAR_DIMENSIONS: YearDimension[] = ['industry', 'wealth', 'marriage', 'health'];
+
+export interface ValidationContext {
+  birthYear: number;
+  pillars: string[]; // 表单中的四柱，模型漏填 bazi 时使用
+}
+
+export interface ValidatedResult {
+  chartData: KLinePoint[];
+  analysis: AnalysisData;
+  warnings: ValidationWarning[];
+}
+
+const messages = () => getTranslations().validation;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+// 接受数字或数字字符串，其余返回 null
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const createNumberReader = (warnings: ValidationWarning[]) =>
+  (value: unknown, path: string, age?: number): number | null => {
+    const num = toNumber(value);
+    if (num !== null && typeof value === 'string') {
+      warnings.push({ code: 'COERCED_NUMBER', path, age, message: format(messages().coercedNumber, { path, value }) });
+    }
+    return num;
+  };
+
+// 流年分项是可选字段：缺失不报警告，给了但格式不对或超出范围才提示
+const normalizeDimensions = (
+  value: unknown,
+  path: string,
+  age: number,
+  warnings: ValidationWarning[],
+): YearDimensionScores | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    warnings.push({ code: 'MISSING_FIELD', path, age, message: format(messages().dimensionsNotObject, { age }) });
+    return undefined;
+  }
+
+  const readNumber = createNumberReader(warnings);
+  const dimensions: YearDimensionScores = {};
+  YEAR_DIMENSIONS.forEach(key => {
+    const score = readNumber(value[key], `${path}.${key}`, age);
+    if (score === null) return;
+    if (score < SCORE_MIN || score > SCORE_MAX) {
+      warnings.push({ code: 'OUT_OF_RANGE', path: `${path}.${key}`, age, message: format(messages().dimensionOutOfRange, { age, key }) });
+    }
+    dimensions[key] = clamp(score, SCORE_MIN, SCORE_MAX);
+  });
+  return Object.keys(dimensions).length > 0 ? dimensions : undefined;
+};
+
+type Candle = Pick<KLinePoint, 'open' | 'close' | 'high' | 'low' | 'score'>;
+
+// 流年、流月共用的 OHLC 归一化，label 用于提示文字 (如 "38 岁"、"丙寅月")
+const normalizeCandle = (
+  raw: Record<string, unknown>,
+  path: string,
+  label: string,
+  age: number | undefined,
+  previousClose: number | null,
+  warnings: ValidationWarning[],
+): Candle => {
+  const readNumber = createNumberReader(warnings);
+
+  const score = readNumber(raw.score, `${path}.score`, age);
+  let open = readNumber(raw.open, `${path}.open`, age);
+  let close = readNumber(raw.close, `${path}.close`, age);
+  let high = readNumber(raw.high, `${path}.high`, age);
+  let low = readNumber(raw.low, `${path}.low`, age);
+
+  if (open === null || close === null) {
+    warnings.push({ code: 'MISSING_FIELD', path, age, message: format(messages().candleMissing, { label }) });
+    open = open ?? previousClose ?? score ?? 50;
+    close = close ?? score ?? open;
+  }
+
+  const outOfRange = [open, close, high, low, score].some(v => v !== null && (v < SCORE_MIN || v > SCORE_MAX));
+  if (outOfRange) {
+    warnings.push({ code: 'OUT_OF_RANGE', path, age, message: format(messages().candleOutOfRange, { label }) });
+  }
+
+  open = clamp(open, SCORE_MIN, SCORE_MAX);
+  close = clamp(close, SCORE_MIN, SCORE_MAX);
+  high = clamp(high ?? Math.max(open, close), SCORE_MIN, SCORE_MAX);
+  low = clamp(low ?? Math.min(open, close), SCORE_MIN, SCORE_MAX);
+
+  if (high < Math.max(open, close) || low > Math.min(open, close)) {
+    warnings.push({ code: 'OHLC_ADJUSTED', path, age, message: format(messages().ohlcAdjusted, { label }) });
+    high = Math.max(high, open, close);
+    low = Math.min(low, open, close);
+  }
+
+  return { open, close, high, low, score: clamp(score ?? close, SCORE_MIN, SCORE_MAX) };
+};
+
+const normalizePoint = (
+  raw: Record<string, unknown>,
+  age: number,
+  ctx: ValidationContext,
+  previousClose: number | null,
+  warnings: ValidationWarning[],
+): KLinePoint => {
+  const readNumber = createNumberReader(warnings);
+  const path = `chartPoints[age=${age}]`;
+
+  const expectedYear = ctx.birthYear + age - 1;
+  const year = readNumber(raw.year, `${path}.year`, age);
+  if (year !== expectedYear) {
+    warnings.push({
+      code: 'YEAR_MISMATCH', path: `${path}.year`, age,
+      message: format(messages().yearMismatch, {
+        age,
+        expected: expectedYear,
+        actual: String(raw.year ?? getTranslations().common.empty),
+      }),
+    });
+  }
+
+  const candle = normalizeCandle(raw, path, format(messages().ageLabel, { age }), age, previousClose, warnings);
+
+  const reason = typeof raw.reason === 'string' ? raw.reason : '';
+  if (!reason) {
+    warnings.push({ code: 'MISSING_FIELD', path: `${path}.reason`, age, message: format(messages().missingReason, { age }) });
+  }
+  const dimensions = normalizeDimensions(raw.dimensions, `${path}.dimensions`, age, warnings);
+
+  return {
+    age,
+    year: expectedYear,
+    ganZhi: typeof raw.ganZhi === 'string' ? raw.ganZhi : '',
+    daYun: typeof raw.daYun === 'string' ? raw.daYun : undefined,
+    ...candle,
+    reason,
+    ...(dimensions && { dimensions }),
+  };
+};
+
+// 缺失年份：开盘接上一年收盘，收盘接下一年开盘
+const fillGap = (
+  age: number,
+  ctx: ValidationContext,
+  previous: KLinePoint | undefined,
+  next: KLinePoint | undefined,
+): KLinePoint => {
+  const open = previous?.close ?? next?.open ?? 50;
+  const close = next?.open ?? open;
+  return {
+    age,
+    year: ctx.birthYear + age - 1,
+    ganZhi: '',
+    open,
+    close,
+    high: Math.max(open, close),
+    low: Math.min(open, close),
+    score: Math.round((open + close) / 2),
+    reason: messages().filledYear,
+    isFilled: true,
+  };
+};
+
+const normalizeChartPoints = (
+  rawPoints: unknown[],
+  ctx: ValidationContext,
+  warnings: ValidationWarning[],
+): KLinePoint[] => {
+  const readNumber = createNumberReader(warnings);
+  const byAge = new Map<number, Record<string, unknown>>();
+
+  rawPoints.forEach((raw, index) => {
+    if (!isRecord(raw)) {
+      warnings.push({ code: 'INVALID_POINT', path: `chartPoints[${index}]`, message: format(messages().invalidPoint, { index: index + 1 }) });
+      return;
+    }
+    const age = readNumber(raw.age, `chartPoints[${index}].age`);
+    if (age === null || !Number.isInteger(age) || age < MIN_AGE || age > MAX_AGE) {
+      warnings.push({ code: 'INVALID_POINT', path: `chartPoints[${index}].age`, message: format(messages().invalidAge, { index: index + 1, age: String(raw.age ?? getTranslations().common.empty) }) });
+      return;
+    }
+    if (byAge.has(age)) {
+      warnings.push({ code: 'DUPLICATE_AGE', path: `chartPoints[${index}]`, age, message: format(messages().duplicateAge, { age }) });
+      return;
+    }
+    byAge.set(age, raw);
+  });
+
+  const points: (KLinePoint | undefined)[] = [];
+  for (let age = MIN_AGE; age <= MAX_AGE; age++) {
+    const raw = byAge.get(age);
+    const previousClose = points[points.length - 1]?.close ?? null;
+    points.push(raw ? normalizePoint(raw, age, ctx, previousClose, warnings) : undefined);
+  }
+
+  const missingAges: number[] = [];
+  const filled = points.map((point, i) => {
+    if (point) return point;
+    const age = i + MIN_AGE;
+    missingAges.push(age);
+    const previous = points.slice(0, i).reverse().find(Boolean);
+    const next = points.slice(i + 1).find(Boolean);
+    return fillGap(age, ctx, previous, next);
+  });
+
+  if (missingAges.length > 0) {
+    warnings.push({
+      code: 'MISSING_AGE', path: 'chartPoints',
+      message: format(messages().missingAges, { count: missingAges.length, ages: missingAges.join(', ') }),
+    });
+  }
+
+  return filled;
+};
+
+const normalizeAnalysis = (
+  data: Record<string, unknown>,
+  ctx: ValidationContext,
+  warnings: ValidationWarning[],
+): AnalysisData => {
+  const readNumber = createNumberReader(warnings);
+
+  const bazi = Array.isArray(data.bazi) && data.bazi.length === 4 && data.bazi.every(p => typeof p === 'string')
+    ? (data.bazi as string[])
+    : ctx.pillars;
+  if (bazi === ctx.pillars) {
+    warnings.push({ code: 'MISSING_FIELD', path: 'bazi', message: messages().missingBazi });
+  }
+
+  const analysis = { bazi } as AnalysisData;
+
+  ANALYSIS_TEXT_FIELDS.forEach(field => {
+    const value = data[field];
+    if (typeof value === 'string' && value.trim()) {
+      analysis[field] = value;
+    } else {
+      analysis[field] = getTranslations().common.none;
+      warnings.push({ code: 'MISSING_FIELD', path: field, message: format(messages().missingAnalysis, { field }) });
+    }
+  });
+
+  ANALYSIS_SCORE_FIELDS.forEach(field => {
+    const value = readNumber(data[field], field);
+    if (value === null) {
+      analysis[field] = DEFAULT_RATING;
+      warnings.push({ code: 'MISSING_FIELD', path: field, message: format(messages().missingScore, { field, score: DEFAULT_RATING }) });
+      return;
+    }
+    if (value < RATING_MIN || value > RATING_MAX) {
+      warnings.push({ code: 'OUT_OF_RANGE', path: field, message: format(messages().scoreOutOfRange, { field, value }) });
+    }
+    analysis[field] = clamp(value, RATING_MIN, RATING_MAX);
+  });
+
+  return analysis;
+};
+
+// 流式生成中的预览：只归一化已到达的数据点，不补齐、不收集 warnings
+export const normalizePartialPoints = (rawPoints: unknown[], ctx: ValidationContext): KLinePoint[] => {
+  const seen = new Set<number>();
+  const points: KLinePoint[] = [];
+  rawPoints.forEach(raw => {
+    if (!isRecord(raw)) return;
+    const age = toNumber(raw.age);
+    if (age === null || !Number.isInteger(age) || age < MIN_AGE || age > MAX_AGE || seen.has(age)) return;
+    seen.add(age);
+    points.push(normalizePoint(raw, age, ctx, points[points.length - 1]?.close ?? null, []));
+  });
+  return points.sort((a, b) => a.age - b.age);
+};
+
+export const validateLifeDestiny = (data: unknown, ctx: ValidationContext): ValidatedResult => {
+  if (!isRecord(data) || !Array.isArray(data.chartPoints)) {
+    throw new Error(messages().missingChartPoints);
+  }
+
+  const warnings: ValidationWarning[] = [];
+  const validPointCount = data.chartPoints.filter(isRecord).length;
+  if (validPointCount === 0) {
+    throw new Error(messages().emptyChartPoints);
+  }
+
+  const chartData = normalizeChartPoints(data.chartPoints, ctx, warnings);
+  const analysis = normalizeAnalysis(data, ctx, warnings);
+
+  return { chartData, analysis, warnings };
+};
+
+// 流月校验：干支与交节日期一律按历法填写，缺失的月份按相邻月份补齐
+export const validateMonthlyPoints = (
+  data: unknown,
+  months: MonthPillar[],
+): { points: MonthlyPoint[]; warnings: ValidationWarning[] } => {
+  if (!isRecord(data) || !Array.isArray(data.monthlyPoints)) {
+    throw new Error(messages().missingMonthlyPoints);
+  }
+
+  const warnings: ValidationWarning[] = [];
+  const readNumber = createNumberReader(warnings);
+  const byMonth = new Map<number, Record<string, unknown>>();
+
+  data.monthlyPoints.forEach((raw, index) => {
+    const month = isRecord(raw) ? readNumber(raw.month, `monthlyPoints[${index}].month`) : null;
+    if (!isRecord(raw) || month === null || !Number.isInteger(month) || month < 1 || month > months.length) {
+      warnings.push({ code: 'INVALID_POINT', path: `monthlyPoints[${index}]`, message: format(messages().invalidMonth, { index: index + 1 }) });
+      return;
+    }
+    if (byMonth.has(month)) {
+      warnings.push({ code: 'DUPLICATE_AGE', path: `monthlyPoints[${index}]`, message: format(messages().duplicateMonth, { month }) });
+      return;
+    }
+    byMonth.set(month, raw);
+  });
+
+  if (byMonth.size === 0) {
+    throw new Error(messages().emptyMonthlyPoints);
+  }
+
+  const points: MonthlyPoint[] = [];
+  const missing: string[] = [];
+  months.forEach(pillar => {
+    const month = pillar.order + 1;
+    const raw = byMonth.get(month);
+    const previousClose = points[points.length - 1]?.close ?? null;
+    const base = { month, ganZhi: pillar.ganZhi, startDate: formatDate(pillar.start) };
+
+    if (!raw) {
+      missing.push(format(messages().monthLabel, { ganZhi: pillar.ganZhi }));
+      // 开盘接上月收盘；下一个月还没处理，收盘先取开盘，之后在下方回填
+      const open = previousClose ?? 50;
+      points.push({ ...base, open, close: open, high: open, low: open, score: open, reason: messages().filledMonth, isFilled: true });
+      return;
+    }
+
+    const reason = typeof raw.reason === 'string' ? raw.reason : '';
+    if (!reason) {
+      warnings.push({ code: 'MISSING_FIELD', path: `monthlyPoints[month=${month}].reason`, message: format(messages().missingMonthReason, { ganZhi: pillar.ganZhi }) });
+    }
+    const candle = normalizeCandle(raw, `monthlyPoints[month=${month}]`, format(messages().monthLabel, { ganZhi: pillar.ganZhi }), undefined, previousClose, warnings);
+    points.push({ ...base, ...candle, reason });
+  });
+
+  // 补齐的月份收盘接下个月开盘
+  points.forEach((point, i) => {
+    const next = points[i + 1];
+    if (!point.isFilled || !next || next.isFilled) return;
+    point.close = next.open;
+    point.high = Math.max(point.open, point.close);
+    point.low = Math.min(point.open, point.close);
+    point.score = Math.round((point.open + point.close) / 2);
+  });
+
+  if (missing.length > 0) {
+    warnings.push({ code: 'MISSING_AGE', path: 'monthlyPoints', message: format(messages().missingMonths, { count: missing.length, months: missing.join(getTranslations().common.listSeparator) }) });
+  }
+
+  return { points, warnings };
+};
@@ -1,13 +1,22 @@
+import type { Language } from './i18n';
 
 export enum Gender {
   MALE = 'Male',
   FEMALE = 'Female',
 }
 
+// 模型接口类型，见 services/providers
+export type LLMProvider = 'openai' | 'gemini' | 'anthropic' | 'ollama' | 'demo';
+
+// single: 一次请求生成全部 100 年；chunked: 报告与每步大运分别请求后合并
+export type GenerationMode = 'single' | 'chunked';
+
 export interface UserInput {
   name?: string;
   gender: Gender;
   birthYear: string;   // 出生年份 (如 1990)
+  birthDate: string;   // 阳历出生日期 (YYYY-MM-DD)
+  birthTime: string;   // 出生时间 (HH:mm，北京时间)
   yearPillar: string;  // 年柱
   monthPillar: string; // 月柱
   dayPillar: string;   // 日柱
@@ -16,11 +25,40 @@ export interface UserInput {
   firstDaYun: string;  // 第一步大运干支
   
   // New API Configuration Fields
+  provider: LLMProvider; // 接口类型
   modelName: string;   // 使用的模型名称
   apiBaseUrl: string;
   apiKey: string;
+  stream: boolean;     // 是否使用流式输出 (SSE)
+  timeoutSeconds: string; // 单次请求超时 (秒)
+  generationMode: GenerationMode;
+  language?: Language; // 报告语言，决定 Prompt 与分析文字的语言；旧数据为空，按中文处理
+  templateId?: string; // 解读流派模板，见 services/promptTemplateService；旧数据为空，按默认模板处理
 }
 
+// 解读流派模板：正文附加在各类请求的系统指令之后，可用 {dayPillar} 等占位符
+export interface PromptTemplate {
+  id: string;
+  version: number;  // 内置模板随 Prompt 修改升级；自定义模板每保存一次加一
+  name: string;
+  body: string;
+  builtIn: boolean;
+  updatedAt?: number; // 自定义模板最后保存时间
+}
+
+// 结果中记录生成时所用的模板。名称与正文一并保存，之后的流月与追问沿用同一份，
+// 模板被编辑或删除也不受影响
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+  name: string;
+  body: string; // 占位符未填的正文
+}
+
+// 流年分项：事业 / 财富 / 婚姻 / 健康，与 K 线同为 0-100 分
+export type YearDimension = 'industry' | 'wealth' | 'marriage' | 'health';
+export type YearDimensionScores = Partial<Record<YearDimension, number>>;
+
 export interface KLinePoint {
   age: number;
   year: number;
@@ -32,6 +70,39 @@ export interface KLinePoint {
   low: number;
   score: number;
   reason: string; // 这里现在需要存储详细的流年描述
+  dimensions?: YearDimensionScores; // 流年分项分数，旧数据或模型未给出时为空
+  isFilled?: boolean; // 模型漏掉该年，由本地按相邻年份补齐
+}
+
+// 流月K线：某一流年按节气分成的十二个月
+export interface MonthlyPoint {
+  month: number;     // 1-12，1 = 寅月 (立春起)
+  ganZhi: string;    // 流月干支，按历法排定
+  startDate: string; // 交节日期 (YYYY-MM-DD)
+  open: number;
+  close: number;
+  high: number;
+  low: number;
+  score: number;
+  reason: string;
+  isFilled?: boolean;
+}
+
+export interface MonthlyReading {
+  year: number;      // 所属流年 (公历年，立春起算)
+  createdAt: number;
+  modelName: string;
+  points: MonthlyPoint[];
+  warnings?: ValidationWarning[];
+  template?: PromptTemplateRef; // 演示模式与旧数据为空
+}
+
+// 报告下方的追问对话
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: number;
+  years?: number[]; // 回答中指向的流年 (公历)，在K线图上高亮
 }
 
 export interface AnalysisData {
@@ -55,7 +126,80 @@ export interface AnalysisData {
   familyScore: number; // 0-10
 }
 
+// 本地校验时被改写的字段记录
+export interface FieldCorrection {
+  age: number;
+  year: number;
+  field: 'ganZhi' | 'daYun';
+  original: string;  // 模型原始输出
+  corrected: string; // 按历法重算后的值
+}
+
+export type ValidationWarningCode =
+  | 'COERCED_NUMBER'
+  | 'OUT_OF_RANGE'
+  | 'OHLC_ADJUSTED'
+  | 'MISSING_FIELD'
+  | 'MISSING_AGE'
+  | 'DUPLICATE_AGE'
+  | 'YEAR_MISMATCH'
+  | 'INVALID_POINT'
+  | 'SEGMENT_FAILED';
+
+// 结构校验时发现并已处理的问题
+export interface ValidationWarning {
+  code: ValidationWarningCode;
+  message: string;
+  path?: string;  // 出问题的字段，如 chartPoints[age=38].high
+  age?: number;
+}
+
+// 生成过程中的进度：已收到的年份会先行绘制
+export interface GenerationProgress {
+  receivedYears: number;
+  totalYears: number;
+  chartData: KLinePoint[];
+}
+
+// 单个 API 请求的当前状态，用于界面提示第几次尝试
+export interface RequestStatus {
+  task: string;
+  attempt: number;
+  maxAttempts: number;
+  state: 'requesting' | 'retrying';
+  retryDelayMs?: number;
+  lastError?: string;
+}
+
 export interface LifeDestinyResult {
   chartData: KLinePoint[];
   analysis: AnalysisData;
+  corrections?: FieldCorrection[];
+  warnings?: ValidationWarning[];
+  template?: PromptTemplateRef; // 演示模式与旧数据为空
+}
+
+// 保存到本地的输入，不含 API Key
+export type SavedInput = Omit<UserInput, 'apiKey'>;
+
+// 浏览器中保存的一次测算
+export interface SavedReading {
+  id: string;
+  title: string;
+  createdAt: number; // 时间戳 (ms)
+  modelName: string;
+  input: SavedInput;
+  result: LifeDestinyResult;
+  monthly?: Record<number, MonthlyReading>; // 已请求过的流月，按公历年缓存
+  chat?: ChatMessage[];                     // 追问对话记录
+}
+
+// 运行时配置：部署时放在 index.html 旁的 config.json，见 services/runtimeConfigService
+export interface RuntimeConfig {
+  apiStatus: number;          // 1: 正常服务；0: 服务器繁忙/维护，演示模式不受影响
+  banner: Partial<Record<Language, string>>; // 页面顶部公告，按界面语言选择，缺少时用中文
+  defaultApiBaseUrl: string;  // OpenAI 兼容接口的默认地址，空为内置默认值
+  defaultModelName: string;   // OpenAI 兼容接口的默认模型，空为内置默认值
+  allowedModels: string[];    // 允许使用的模型，空为不限制
+  refreshSeconds: number;     // 重新读取配置的间隔
 }